@@ -0,0 +1,14 @@
+/**
+ * Proxy for the tez.cool home data (staking and delegation APY)
+ */
+
+import { CacheStrategies } from "@/lib/cache-manager"
+import { proxyTezCool } from "@/lib/tzkt-proxy"
+import { TezCoolDataSchema } from "@/lib/tzkt-schemas"
+
+export async function GET(request: Request) {
+  return proxyTezCool(request, {
+    strategy: CacheStrategies.GLOBAL_STATS,
+    schema: TezCoolDataSchema,
+  })
+}
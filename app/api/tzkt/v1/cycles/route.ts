@@ -0,0 +1,16 @@
+/**
+ * Proxy for TzKT /v1/cycles (cycle list)
+ */
+
+import { CacheStrategies } from "@/lib/cache-manager"
+import { PAGING_BOUNDS, proxyTzkt } from "@/lib/tzkt-proxy"
+import { CycleListSchema } from "@/lib/tzkt-schemas"
+
+export async function GET(request: Request) {
+  return proxyTzkt(request, "/v1/cycles", {
+    strategy: CacheStrategies.NETWORK_STATS,
+    schema: CycleListSchema,
+    params: ["sort.desc", "sort.asc", "offset", "limit", "quote"],
+    bounds: PAGING_BOUNDS,
+  })
+}
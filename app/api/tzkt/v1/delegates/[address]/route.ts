@@ -0,0 +1,20 @@
+/**
+ * Proxy for TzKT /v1/delegates/{address} (baker details)
+ */
+
+import { CacheStrategies } from "@/lib/cache-manager"
+import { isValidAddress } from "@/lib/tezos-address"
+import { errorResponse, proxyTzkt } from "@/lib/tzkt-proxy"
+import { BakerSchema } from "@/lib/tzkt-schemas"
+
+export async function GET(request: Request, { params }: { params: { address: string } }) {
+  // Only checksum-verified addresses reach the upstream path
+  if (!isValidAddress(params.address)) {
+    return errorResponse(400, `Invalid address: ${params.address}`)
+  }
+
+  return proxyTzkt(request, `/v1/delegates/${params.address}`, {
+    strategy: CacheStrategies.BAKER_DETAILS,
+    schema: BakerSchema,
+  })
+}
@@ -0,0 +1,16 @@
+/**
+ * Proxy for TzKT /v1/delegates (baker list, including paged requests)
+ */
+
+import { CacheStrategies } from "@/lib/cache-manager"
+import { PAGING_BOUNDS, proxyTzkt } from "@/lib/tzkt-proxy"
+import { BakerListSchema } from "@/lib/tzkt-schemas"
+
+export async function GET(request: Request) {
+  return proxyTzkt(request, "/v1/delegates", {
+    strategy: CacheStrategies.BAKERS_LIST,
+    schema: BakerListSchema,
+    params: ["active", "sort.desc", "sort.asc", "offset", "limit"],
+    bounds: PAGING_BOUNDS,
+  })
+}
@@ -0,0 +1,17 @@
+/**
+ * Proxy for TzKT /v1/head (chain head, polled while the event hub is unavailable)
+ */
+
+import type { CacheOptions } from "@/lib/cache-manager"
+import { proxyTzkt } from "@/lib/tzkt-proxy"
+import { HeadSchema } from "@/lib/tzkt-schemas"
+
+// A new block every few seconds: shared between clients for a few seconds only
+const HEAD_STRATEGY: CacheOptions = { ttl: 5 * 1000 }
+
+export async function GET(request: Request) {
+  return proxyTzkt(request, "/v1/head", {
+    strategy: HEAD_STRATEGY,
+    schema: HeadSchema,
+  })
+}
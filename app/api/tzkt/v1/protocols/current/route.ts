@@ -0,0 +1,14 @@
+/**
+ * Proxy for TzKT /v1/protocols/current (current protocol and its constants)
+ */
+
+import { CacheStrategies } from "@/lib/cache-manager"
+import { proxyTzkt } from "@/lib/tzkt-proxy"
+import { ProtocolSchema } from "@/lib/tzkt-schemas"
+
+export async function GET(request: Request) {
+  return proxyTzkt(request, "/v1/protocols/current", {
+    strategy: CacheStrategies.NETWORK_STATS,
+    schema: ProtocolSchema,
+  })
+}
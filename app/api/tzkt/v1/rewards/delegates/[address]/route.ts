@@ -0,0 +1,39 @@
+/**
+ * Proxy for TzKT /v1/rewards/delegates/{address} (baker reward history)
+ */
+
+import { CacheStrategies } from "@/lib/cache-manager"
+import { isValidAddress } from "@/lib/tezos-address"
+import { errorResponse, getCurrentCycleIndex, PAGING_BOUNDS, proxyTzkt } from "@/lib/tzkt-proxy"
+import { BakerRewardsListSchema } from "@/lib/tzkt-schemas"
+
+const PARAMS = ["cycle.ge", "cycle.le", "sort.desc", "offset", "limit", "quote"]
+
+const BOUNDS = {
+  ...PAGING_BOUNDS,
+  "cycle.ge": { min: 0, max: 1000000 },
+  "cycle.le": { min: 0, max: 1000000 },
+}
+
+// Bounded ranges of completed cycles never change (see getFinalizedRewards).
+// Any client can send one though, so the server keeps them for a day, not forever.
+const FINALIZED_RANGE_STRATEGY = { ...CacheStrategies.FINALIZED_REWARDS, ttl: 24 * 60 * 60 * 1000 }
+
+export async function GET(request: Request, { params }: { params: { address: string } }) {
+  // Only checksum-verified addresses reach the upstream path
+  if (!isValidAddress(params.address)) {
+    return errorResponse(400, `Invalid address: ${params.address}`)
+  }
+
+  // A range reaching the current cycle holds live rewards: it must not be frozen for a day
+  const toCycle = new URL(request.url).searchParams.get("cycle.le")
+  const currentCycle = toCycle !== null ? await getCurrentCycleIndex(request) : null
+  const finalizedRange = currentCycle !== null && Number(toCycle) < currentCycle
+
+  return proxyTzkt(request, `/v1/rewards/delegates/${params.address}`, {
+    strategy: finalizedRange ? FINALIZED_RANGE_STRATEGY : CacheStrategies.BAKER_REWARDS,
+    schema: BakerRewardsListSchema,
+    params: PARAMS,
+    bounds: BOUNDS,
+  })
+}
@@ -0,0 +1,15 @@
+/**
+ * Proxy for TzKT /v1/statistics/current (network statistics)
+ */
+
+import { CacheStrategies } from "@/lib/cache-manager"
+import { proxyTzkt } from "@/lib/tzkt-proxy"
+import { NetworkStatsSchema } from "@/lib/tzkt-schemas"
+
+export async function GET(request: Request) {
+  return proxyTzkt(request, "/v1/statistics/current", {
+    strategy: CacheStrategies.NETWORK_STATS,
+    schema: NetworkStatsSchema,
+    params: ["quote"],
+  })
+}
@@ -0,0 +1,394 @@
+/**
+ * Cache Diagnostics Page
+ *
+ * Inspector for the client-side cache, used to debug stale data reports
+ * without opening the browser devtools.
+ *
+ * Features:
+ * - Hit rate and bytes used per cache tier against their budgets
+ * - Every in-memory entry with its strategy, tags, age vs TTL, persistence tiers and size
+ * - Per-key invalidate and refetch buttons
+ * - Hits, misses, stale serves, revalidations, load latency percentiles and errors per data type
+ * - Upstream response times per TzKT / tez.cool endpoint
+ * - Clear the whole cache
+ *
+ * Statistics update every second (see useCacheStats)
+ */
+
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { Activity, ArrowLeft, Database, RefreshCw, Timer, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { NetworkSwitcher } from "@/components/network-switcher"
+import { useCacheStats } from "@/hooks/use-tzkt-data-cached"
+import { useTezosNetwork } from "@/hooks/use-tezos-network"
+import { cacheStrategyOf } from "@/lib/tzkt-api-cached"
+import { getErrorMessage } from "@/lib/tzkt-fetch"
+import type { CacheEntryStats } from "@/lib/cache-manager"
+import { cn } from "@/lib/utils"
+
+export default function DiagnosticsPage() {
+  const { size, hitRate, storage, bytes, budgets, entries, metrics, latency, clearCache, invalidateKey, refetchKey } =
+    useCacheStats()
+  const { network } = useTezosNetwork()
+
+  // Key filter and per-key refetch state
+  const [filter, setFilter] = useState("")
+  const [refetching, setRefetching] = useState<Set<string>>(new Set())
+  const [keyErrors, setKeyErrors] = useState<Record<string, string>>({})
+
+  const networkPrefix = `${network.cacheNamespace}:`
+  const visibleEntries = entries
+    .filter((entry) => entry.key.toLowerCase().includes(filter.trim().toLowerCase()))
+    .sort((a, b) => a.key.localeCompare(b.key))
+
+  /**
+   * Refetch one entry, keeping track of pending requests and failures per key
+   */
+  const handleRefetch = async (key: string) => {
+    setRefetching((current) => new Set(current).add(key))
+    setKeyErrors(({ [key]: _previous, ...rest }) => rest)
+
+    try {
+      const refetched = await refetchKey(key)
+      if (!refetched) {
+        setKeyErrors((current) => ({ ...current, [key]: "This entry cannot be refetched on its own" }))
+      }
+    } catch (error) {
+      setKeyErrors((current) => ({ ...current, [key]: getErrorMessage(error, "Refetch failed") }))
+    } finally {
+      setRefetching((current) => {
+        const next = new Set(current)
+        next.delete(key)
+        return next
+      })
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      {/* ========== Header ========== */}
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container flex h-16 items-center space-x-4 sm:justify-between sm:space-x-0">
+          <Link href="/" className="flex items-center space-x-2">
+            <Image src="/tezos-logo.png" alt="Tezos Logo" width={32} height={32} />
+            <span className="inline-block font-bold">Tezos Baking Portal</span>
+          </Link>
+          <div className="flex flex-1 items-center justify-end space-x-4">
+            <NetworkSwitcher />
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1">
+        <section className="w-full py-12">
+          <div className="container px-4 md:px-6 space-y-8">
+            <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+              <div className="space-y-2">
+                <Link href="/" className="flex items-center text-sm text-blue-600 hover:underline">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Portal
+                </Link>
+                <h1 className="text-3xl font-bold tracking-tighter">Cache Diagnostics</h1>
+                <p className="text-muted-foreground">
+                  Entries cached in this tab, and how fast the upstream APIs answered since the page was loaded
+                </p>
+              </div>
+              <Button variant="outline" onClick={clearCache} className="text-red-600">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear Cache
+              </Button>
+            </div>
+
+            {/* ========== Summary Cards ========== */}
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Entries in memory</CardDescription>
+                  <CardTitle className="text-3xl">{size}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">
+                  Hit rate {(hitRate * 100).toFixed(1)}%
+                </CardContent>
+              </Card>
+              <TierCard title="Memory" used={bytes.memory} budget={budgets.memory} />
+              <TierCard title="localStorage" used={bytes.localStorage} budget={budgets.localStorage} />
+              <TierCard title={`Storage (${storage ?? "none"})`} used={bytes.storage} budget={budgets.storage} />
+            </div>
+
+            {/* ========== Cache Entries ========== */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Database className="h-5 w-5" />
+                  Cache Entries
+                </CardTitle>
+                <CardDescription>
+                  Entries of other networks are listed too; only entries of the active network can be refetched
+                </CardDescription>
+                <Input
+                  type="text"
+                  placeholder="Filter by key (e.g. baker_rewards)"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  className="max-w-sm"
+                />
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                {visibleEntries.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">No cache entries</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Key</th>
+                        <th className="py-2 pr-4 font-medium">Strategy</th>
+                        <th className="py-2 pr-4 font-medium">Age / TTL</th>
+                        <th className="py-2 pr-4 font-medium">Stored in</th>
+                        <th className="py-2 pr-4 font-medium text-right">Size</th>
+                        <th className="py-2 font-medium text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleEntries.map((entry) => {
+                        const refetchable = entry.key.startsWith(networkPrefix) && cacheStrategyOf(entry.key) !== null
+                        const pending = refetching.has(entry.key)
+
+                        return (
+                          <tr key={entry.key} className="border-b align-top last:border-0">
+                            <td className="py-3 pr-4 font-mono text-xs break-all">
+                              {entry.key}
+                              {entry.tags.length > 0 && (
+                                <p className="mt-1 text-muted-foreground">
+                                  {entry.tags.map((tag) => tag.slice(tag.lastIndexOf(":#") + 1)).join(" ")}
+                                </p>
+                              )}
+                              {keyErrors[entry.key] && <p className="mt-1 font-sans text-red-600">{keyErrors[entry.key]}</p>}
+                            </td>
+                            <td className="py-3 pr-4">
+                              <span className="font-mono text-xs">{cacheStrategyOf(entry.key) ?? "—"}</span>
+                              <p className="text-xs text-muted-foreground">{PRIORITY_LABELS[entry.priority] ?? entry.priority} priority</p>
+                            </td>
+                            <td className="py-3 pr-4 min-w-40">
+                              <EntryAge entry={entry} />
+                            </td>
+                            <td className="py-3 pr-4">
+                              <div className="flex flex-wrap gap-1">
+                                {entry.tiers.map((tier) => (
+                                  <Badge key={tier} variant="secondary">
+                                    {tier === "storage" ? (storage ?? tier) : tier}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </td>
+                            <td className="py-3 pr-4 text-right whitespace-nowrap">{formatBytes(entry.size)}</td>
+                            <td className="py-3">
+                              <div className="flex justify-end gap-2">
+                                <Button size="sm" variant="outline" onClick={() => invalidateKey(entry.key)}>
+                                  Invalidate
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleRefetch(entry.key)}
+                                  disabled={!refetchable || pending}
+                                >
+                                  <RefreshCw className={cn("h-4 w-4 mr-1", pending && "animate-spin")} />
+                                  Refetch
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* ========== Metrics per Data Type ========== */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-5 w-5" />
+                  Metrics by Data Type
+                </CardTitle>
+                <CardDescription>
+                  Cache requests and upstream loads per key family since the page was loaded; load times include retries
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                {metrics.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">No cache requests yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Data type</th>
+                        <th className="py-2 pr-4 font-medium text-right">Hits</th>
+                        <th className="py-2 pr-4 font-medium text-right">Misses</th>
+                        <th className="py-2 pr-4 font-medium text-right">Hit rate</th>
+                        <th className="py-2 pr-4 font-medium text-right">Stale served</th>
+                        <th className="py-2 pr-4 font-medium text-right">Revalidations</th>
+                        <th className="py-2 pr-4 font-medium text-right">Loads</th>
+                        <th className="py-2 pr-4 font-medium text-right">Errors</th>
+                        <th className="py-2 font-medium text-right">p50 / p90 / p99</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {metrics.map((row) => (
+                        <tr key={row.family} className="border-b last:border-0">
+                          <td className="py-3 pr-4 font-mono text-xs">{row.family}</td>
+                          <td className="py-3 pr-4 text-right">{row.hits}</td>
+                          <td className="py-3 pr-4 text-right">{row.misses}</td>
+                          <td className="py-3 pr-4 text-right">{(row.hitRate * 100).toFixed(1)}%</td>
+                          <td className="py-3 pr-4 text-right">{row.staleServes}</td>
+                          <td className="py-3 pr-4 text-right">{row.revalidations}</td>
+                          <td className="py-3 pr-4 text-right">{row.loads}</td>
+                          <td className={cn("py-3 pr-4 text-right", row.errors > 0 && "text-red-600")}>{row.errors}</td>
+                          <td className="py-3 text-right whitespace-nowrap">
+                            {row.latency.p50 === null
+                              ? "—"
+                              : [row.latency.p50, row.latency.p90, row.latency.p99]
+                                  .map((ms) => `${Math.round(ms ?? 0)}`)
+                                  .join(" / ") + " ms"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* ========== Upstream Latency ========== */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Timer className="h-5 w-5" />
+                  Upstream Latency
+                </CardTitle>
+                <CardDescription>Every request attempt from this tab, retries included, slowest first</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                {latency.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">No upstream requests yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Endpoint</th>
+                        <th className="py-2 pr-4 font-medium text-right">Requests</th>
+                        <th className="py-2 pr-4 font-medium text-right">Errors</th>
+                        <th className="py-2 pr-4 font-medium text-right">Last</th>
+                        <th className="py-2 pr-4 font-medium text-right">Average</th>
+                        <th className="py-2 pr-4 font-medium text-right">Max</th>
+                        <th className="py-2 font-medium text-right">Last request</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {latency.map((row) => (
+                        <tr key={row.endpoint} className="border-b last:border-0">
+                          <td className="py-3 pr-4 font-mono text-xs break-all">{row.endpoint}</td>
+                          <td className="py-3 pr-4 text-right">{row.requests}</td>
+                          <td className={cn("py-3 pr-4 text-right", row.errors > 0 && "text-red-600")}>{row.errors}</td>
+                          <td className="py-3 pr-4 text-right">{Math.round(row.lastMs)} ms</td>
+                          <td className="py-3 pr-4 text-right">{Math.round(row.averageMs)} ms</td>
+                          <td className="py-3 pr-4 text-right">{Math.round(row.maxMs)} ms</td>
+                          <td className="py-3 text-right whitespace-nowrap">{new Date(row.lastAt).toLocaleTimeString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
+
+// ============ Components ============
+
+/**
+ * Bytes used by one cache tier against its budget
+ */
+function TierCard({ title, used, budget }: { title: string; used: number; budget: number }) {
+  const percent = budget > 0 ? Math.min(100, (used / budget) * 100) : 0
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-3xl">{formatBytes(used)}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm text-muted-foreground">
+        <div className="h-2 w-full rounded-full bg-muted">
+          <div
+            className={cn("h-2 rounded-full", percent > 90 ? "bg-red-500" : "bg-blue-600")}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        of {formatBytes(budget)} budget
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Age of an entry against its lifetime, with an expiry indicator
+ * The lifetime is the TTL, or less when the entry expires at a set time
+ */
+function EntryAge({ entry }: { entry: CacheEntryStats }) {
+  const cachedAt = Date.now() - entry.age
+  const lifetime = entry.expiresAt !== null ? Math.min(entry.ttl, entry.expiresAt - cachedAt) : entry.ttl
+  const percent = entry.expired ? 100 : Math.min(100, (entry.age / Math.max(lifetime, 1)) * 100)
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 whitespace-nowrap">
+        <span>
+          {formatDuration(entry.age)} / {lifetime >= NEVER_EXPIRES ? "never expires" : formatDuration(lifetime)}
+        </span>
+        {entry.expired && <Badge variant="destructive">expired</Badge>}
+      </div>
+      <div className="h-1.5 w-full rounded-full bg-muted">
+        <div
+          className={cn("h-1.5 rounded-full", entry.expired ? "bg-red-500" : percent > 75 ? "bg-amber-500" : "bg-green-500")}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+// ============ Formatting Helpers ============
+
+const PRIORITY_LABELS: Record<number, string> = { 0: "Low", 1: "Normal", 2: "High" }
+
+// TTLs beyond a year only come from entries kept indefinitely (e.g. finalized rewards)
+const NEVER_EXPIRES = 365 * 24 * 60 * 60 * 1000
+
+function formatBytes(value: number): string {
+  if (value < 1024) return `${value} B`
+  if (value < 1024 * 1024) return `${(value / 1024).toFixed(1)} KB`
+  return `${(value / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+  return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`
+}
@@ -6,6 +6,7 @@
  * - Global fonts (Outfit and Roboto)
  * - Theme provider for dark mode support
  * - Global CSS styles
+ * - Optional export of cache metrics to PostHog
  * - Meta tags for SEO
  */
 
@@ -14,6 +15,7 @@ import type { Metadata } from "next"
 import { Outfit, Roboto } from "next/font/google"
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
+import { CacheMetricsExport } from "@/components/cache-metrics-export"
 
 // Configure Outfit font (headings and UI elements)
 const outfit = Outfit({
@@ -72,6 +74,8 @@ export default function RootLayout({
         <ThemeProvider attribute="class" defaultTheme="dark" enableSystem={false} disableTransitionOnChange>
           {children}
         </ThemeProvider>
+        {/* Cache metrics to PostHog (NEXT_PUBLIC_CACHE_METRICS_EXPORT=posthog) */}
+        <CacheMetricsExport />
       </body>
     </html>
   )
@@ -3,7 +3,7 @@
  * 
  * Main landing page providing:
  * - Hero section with introduction to Tezos baking
- * - Real-time network statistics with caching
+ * - Real-time network statistics with caching, data age and stale / placeholder warnings
  * - Information about baking process and benefits
  * - Getting started guide with setup steps
  * - Governance overview
@@ -34,6 +34,10 @@ import {
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { NetworkSwitcher } from "@/components/network-switcher"
+import { CurrencySwitcher } from "@/components/currency-switcher"
+import { QuoteValue } from "@/components/quote-value"
+import { FreshnessBadge, PlaceholderWarning, worstFreshness } from "@/components/data-freshness"
 import { useNetworkStats, useBakersStats, useDataPreloader } from "@/hooks/use-tzkt-data-cached"
 import { formatXTZ } from "@/lib/tzkt-api"
 
@@ -56,7 +60,10 @@ export default function Home() {
     cycle,
     loading: networkLoading,
     error: networkError,
+    freshness: networkFreshness,
     lastUpdated: networkLastUpdated,
+    retryAt: networkRetryAt,
+    realtimeStatus,
     refresh: refreshNetwork,
   } = useNetworkStats()
   
@@ -65,9 +72,18 @@ export default function Home() {
     stats: bakersStats,
     loading: bakersLoading,
     error: bakersError,
+    freshness: bakersFreshness,
     lastUpdated: bakersLastUpdated,
+    retryAt: bakersRetryAt,
     refresh: refreshBakers,
   } = useBakersStats()
+
+  // The network card also shows baker counts and stake, which are live even when the APY is a fallback
+  const performanceFreshness = worstFreshness(networkFreshness, bakersFreshness === "fallback" ? "fresh" : bakersFreshness)
+  // Values missing because a query failed, not because it is still loading
+  const performanceIncomplete =
+    (!bakersStats || !cycle || !networkStats) &&
+    [networkFreshness, bakersFreshness].some((freshness) => freshness === "error" || freshness === "fallback")
   
   // Preload critical data for better performance
   const { preloaded } = useDataPreloader()
@@ -138,6 +154,8 @@ export default function Home() {
                 </Link>
               ))}
             </nav>
+            <NetworkSwitcher className="text-white" />
+            <CurrencySwitcher className="text-white" />
           </div>
 
           <button
@@ -162,6 +180,8 @@ export default function Home() {
                   {link.text}
                 </Link>
               ))}
+              <NetworkSwitcher className="text-white py-2" />
+              <CurrencySwitcher className="text-white py-2" />
             </nav>
           </div>
         )}
@@ -250,6 +270,13 @@ export default function Home() {
                         <CardDescription className="text-white-600 mt-1 text-sm sm:text-base">
                           {networkStatsContent.stakingApy.description}
                         </CardDescription>
+                        <FreshnessBadge
+                          freshness={bakersFreshness}
+                          lastUpdated={bakersLastUpdated}
+                          retryAt={bakersRetryAt}
+                          error={bakersError}
+                          className="mt-2 text-white-600"
+                        />
                       </div>
                       <Button
                         onClick={refreshBakers}
@@ -263,18 +290,18 @@ export default function Home() {
                     </div>
                   </CardHeader>
                   <CardContent className="p-4 sm:p-6">
-                    {networkLoading || bakersLoading ? (
+                    {bakersLoading && !bakersStats ? (
                       <div className="flex items-center justify-center py-12">
                         <div className="text-center space-y-3">
                           <div className="animate-spin rounded-full h-10 w-10 border-2 border-brand-blue-600 border-t-transparent mx-auto"></div>
                           <p className="text-sm text-white-600">Loading from cache...</p>
                         </div>
                       </div>
-                    ) : networkError || bakersError ? (
+                    ) : bakersFreshness === "error" ? (
                       <div className="flex items-center justify-center py-12">
                         <div className="text-center">
                           <div className="text-2xl font-bold text-red-400">Error</div>
-                          <p className="text-sm text-white-600 mt-2">Failed to load data</p>
+                          <p className="text-sm text-white-600 mt-2">{bakersError}</p>
                         </div>
                       </div>
                     ) : (
@@ -285,7 +312,7 @@ export default function Home() {
                           <div className="flex items-center justify-center py-6 bg-brand-blue-600/10 rounded-lg border border-brand-blue-600/20">
                             <div className="text-center space-y-2 w-full px-4">
                               <div className="text-4xl sm:text-5xl font-bold text-brand-blue-600">
-                                {bakersStats ? `${bakersStats.stakingApy.toFixed(2)}%` : "9.73%"}
+                                {bakersStats ? `${bakersStats.stakingApy.toFixed(2)}%` : "—"}
                               </div>
                               <p className="text-white-700 text-xs sm:text-sm font-medium">Staking APY</p>
                               <p className="text-white-600 text-xs">For active bakers</p>
@@ -295,27 +322,39 @@ export default function Home() {
                           <div className="flex items-center justify-center py-6 bg-brand-blue-600/10 rounded-lg border border-brand-blue-600/20">
                             <div className="text-center space-y-2 w-full px-4">
                               <div className="text-4xl sm:text-5xl font-bold text-brand-blue-600">
-                                {bakersStats ? `${bakersStats.delegationApy.toFixed(2)}%` : "3.24%"}
+                                {bakersStats ? `${bakersStats.delegationApy.toFixed(2)}%` : "—"}
                               </div>
                               <p className="text-white-700 text-xs sm:text-sm font-medium">Delegation APY</p>
                               <p className="text-white-600 text-xs">For delegators</p>
                             </div>
                           </div>
                         </div>
-                        {/* Data source attribution */}
-                        <div className="text-center mt-2">
-                          <p className="text-white-600/70 text-[10px] sm:text-xs font-light">
-                            APY data provided by{" "}
-                            <a
-                              href="https://tez.cool"
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-brand-blue-600/80 hover:text-brand-blue-500 transition-colors"
-                            >
-                              tez.cool
-                            </a>
-                          </p>
-                        </div>
+                        {/* Data source attribution - names the APY provider and flags fallback values */}
+                        {bakersStats && (
+                          <div className="text-center mt-2">
+                            {bakersStats.apySource.fallback ? (
+                              <PlaceholderWarning className="justify-center text-left">
+                                {networkStatsContent.stakingApy.source.fallback}
+                              </PlaceholderWarning>
+                            ) : (
+                              <p className="text-white-600/70 text-[10px] sm:text-xs font-light">
+                                {networkStatsContent.stakingApy.source.providedBy}{" "}
+                                {bakersStats.apySource.url ? (
+                                  <a
+                                    href={bakersStats.apySource.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-brand-blue-600/80 hover:text-brand-blue-500 transition-colors"
+                                  >
+                                    {bakersStats.apySource.label}
+                                  </a>
+                                ) : (
+                                  bakersStats.apySource.label
+                                )}
+                              </p>
+                            )}
+                          </div>
+                        )}
                       </div>
                     )}
                   </CardContent>
@@ -344,6 +383,13 @@ export default function Home() {
                         <CardDescription className="text-white-600 mt-1 text-sm sm:text-base">
                           {networkStatsContent.networkPerformance.description}
                         </CardDescription>
+                        <FreshnessBadge
+                          freshness={performanceFreshness}
+                          lastUpdated={networkLastUpdated}
+                          retryAt={networkRetryAt ?? bakersRetryAt}
+                          error={networkError ?? bakersError}
+                          className="mt-2 text-white-600"
+                        />
                       </div>
                       <Button
                         onClick={refreshNetwork}
@@ -357,27 +403,50 @@ export default function Home() {
                     </div>
                   </CardHeader>
                   <CardContent className="p-4 sm:p-6">
-                    {networkLoading || bakersLoading ? (
+                    {(networkLoading || bakersLoading) && !networkStats && !bakersStats ? (
                       <div className="flex items-center justify-center py-12">
                         <div className="animate-spin rounded-full h-8 w-8 border-2 border-brand-blue-600 border-t-transparent"></div>
                       </div>
                     ) : (
                       <div className="space-y-4 py-4">
+                        {performanceIncomplete && (
+                          <PlaceholderWarning>{networkStatsContent.networkPerformance.unavailable}</PlaceholderWarning>
+                        )}
                         <div className="flex justify-between items-center py-2">
                           <span className="text-white-600">{networkStatsContent.networkPerformance.labels.activeBakers}</span>
                           <span className="font-semibold text-white-900 text-lg">
-                            {bakersStats ? bakersStats.activeBakers : "412"}
+                            {bakersStats ? bakersStats.activeBakers : "—"}
                           </span>
                         </div>
                         <div className="flex justify-between items-center py-2">
                           <span className="text-white-600">{networkStatsContent.networkPerformance.labels.totalStaked}</span>
                           <span className="font-semibold text-white-900 text-lg">
-                            {bakersStats ? `${formatXTZ(bakersStats.totalStaking)}` : "486.2M"}
+                            {bakersStats ? `${formatXTZ(bakersStats.totalStaking)}` : "—"}
+                            {bakersStats && (
+                              <QuoteValue
+                                amount={bakersStats.totalStaking}
+                                quote={networkStats?.quote}
+                                className="ml-2 text-white-600"
+                              />
+                            )}
                           </span>
                         </div>
                         <div className="flex justify-between items-center py-2">
                           <span className="text-white-600">{networkStatsContent.networkPerformance.labels.currentCycle}</span>
-                          <span className="font-semibold text-white-900 text-lg">{cycle ? cycle.index : "620"}</span>
+                          <span className="font-semibold text-white-900 text-lg">{cycle ? cycle.index : "—"}</span>
+                        </div>
+                        <div className="flex justify-between items-center py-2">
+                          <span className="text-white-600">{networkStatsContent.networkPerformance.labels.currentLevel}</span>
+                          <span className="flex items-center gap-2 font-semibold text-white-900 text-lg">
+                            {realtimeStatus === "live" && (
+                              <span
+                                className="h-2 w-2 rounded-full bg-green-500 animate-pulse"
+                                title={networkStatsContent.networkPerformance.labels.live}
+                                aria-label={networkStatsContent.networkPerformance.labels.live}
+                              />
+                            )}
+                            {networkStats ? networkStats.level.toLocaleString() : "—"}
+                          </span>
                         </div>
                         <div className="flex justify-between items-center py-2">
                           <span className="text-white-600">{networkStatsContent.networkPerformance.labels.blockTime}</span>
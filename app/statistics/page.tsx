@@ -4,13 +4,13 @@
  * Dedicated page for viewing detailed statistics about individual bakers.
  * 
  * Features:
- * - Search by baker address
- * - Real-time baker data fetching with caching
+ * - Search by baker address, checksum-verified before any request (with suggested fixes for typos)
+ * - Real-time baker data fetching with caching, data age and retry countdown
  * - Comprehensive baker overview (balance, fee, APY, delegators)
- * - Staking capacity and efficiency visualization
- * - Performance metrics (blocks, endorsements)
+ * - Staking balance breakdown and baking power (own/external staked and delegated)
+ * - Per-cycle performance charts (blocks, attestations, rewards) over a selectable cycle range
  * - Recent reward history
- * - Frozen balances breakdown
+ * - Staking parameters (limit, edge, pending unstakes)
  * - Governance activity tracking
  * - Demo address for quick testing
  * 
@@ -24,23 +24,53 @@ import type React from "react"
 import { useState } from "react"
 import Link from "next/link"
 import Image from "next/image"
-import { ArrowLeft, BarChart3, LineChart, PieChart, Search, RefreshCw } from "lucide-react"
+import { ArrowLeft, Search, RefreshCw } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
-import { useBakerDetails } from "@/hooks/use-tzkt-data-cached"
-import { formatXTZ, formatPercentage, formatAddress } from "@/lib/tzkt-api"
+import { NetworkSwitcher } from "@/components/network-switcher"
+import { CurrencySwitcher } from "@/components/currency-switcher"
+import { QuoteValue } from "@/components/quote-value"
+import { FreshnessBadge } from "@/components/data-freshness"
+import { BakerPerformanceCharts } from "@/components/baker-performance-charts"
+import { useBakerDetails, useNetworkStats } from "@/hooks/use-tzkt-data-cached"
+import {
+  formatXTZ,
+  formatPercentage,
+  formatAddress,
+  formatEdge,
+  formatStakingLimit,
+  getTotalRewards,
+  getStakingBreakdown,
+  calculateEstimatedApy,
+} from "@/lib/tzkt-api"
+import { ADDRESS_KIND_LABELS, canBeBaker, validateAddress } from "@/lib/tezos-address"
 
 export default function StatisticsPage() {
   // UI state for address input
   const [address, setAddress] = useState("")
   const [searchedAddress, setSearchedAddress] = useState<string | null>(null)
+  // Why the entered address was not searched, with likely corrections
+  const [addressProblem, setAddressProblem] = useState<{ message: string; suggestions: string[] } | null>(null)
   
   // Fetch baker data using custom hook with caching
-  const { baker, rewards, loading, error, lastUpdated, refresh } = useBakerDetails(searchedAddress)
+  const { baker, rewards, stakingConstants, loading, error, freshness, lastUpdated, retryAt, refresh } =
+    useBakerDetails(searchedAddress)
+
+  // Latest XTZ price, for converting current balances
+  const { stats: networkStats, cycle } = useNetworkStats()
+  const currentQuote = networkStats?.quote
+
+  // Derived staking metrics (post-Paris baking power model)
+  const staking = baker && stakingConstants ? getStakingBreakdown(baker, stakingConstants) : null
+  const estimatedApy = baker ? calculateEstimatedApy(baker, rewards) : 0
+  const stakingCapacityUsed =
+    staking && staking.maxExternalStaked > 0
+      ? ((staking.externalStaked + staking.overstaked) / staking.maxExternalStaked) * 100
+      : 0
 
   /**
    * Handle search form submission
@@ -49,7 +79,28 @@ export default function StatisticsPage() {
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
     if (address.trim()) {
-      setSearchedAddress(address.trim())
+      searchFor(address)
+    }
+  }
+
+  /**
+   * Search for an address once it is verified
+   * Invalid addresses and smart contracts are reported without calling TzKT
+   */
+  const searchFor = (input: string) => {
+    const result = validateAddress(input)
+
+    if (!result.valid) {
+      setAddressProblem({ message: result.message, suggestions: result.suggestions })
+    } else if (!canBeBaker(result.kind)) {
+      setAddressProblem({
+        message: `${formatAddress(result.address)} is a valid Tezos address, but a ${ADDRESS_KIND_LABELS[result.kind]}: only tz1-tz4 accounts can be bakers.`,
+        suggestions: [],
+      })
+    } else {
+      setAddressProblem(null)
+      setAddress(result.address)
+      setSearchedAddress(result.address)
     }
   }
 
@@ -60,6 +111,7 @@ export default function StatisticsPage() {
   const handleUseMyAddress = () => {
     const demoAddress = "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb"
     setAddress(demoAddress)
+    setAddressProblem(null)
     setSearchedAddress(demoAddress)
   }
 
@@ -68,6 +120,7 @@ export default function StatisticsPage() {
    */
   const handleReset = () => {
     setAddress("")
+    setAddressProblem(null)
     setSearchedAddress(null)
   }
 
@@ -107,6 +160,8 @@ export default function StatisticsPage() {
           </div>
           <div className="flex flex-1 items-center justify-end space-x-4">
             <nav className="flex items-center space-x-1">
+              <NetworkSwitcher className="mr-2" />
+              <CurrencySwitcher className="mr-2" />
               <Button size="sm" className="bg-blue-600 hover:bg-blue-700">
                 Connect Wallet
               </Button>
@@ -132,7 +187,11 @@ export default function StatisticsPage() {
                       type="text"
                       placeholder="Enter baker address (tz1...)"
                       value={address}
-                      onChange={(e) => setAddress(e.target.value)}
+                      onChange={(e) => {
+                        setAddress(e.target.value)
+                        setAddressProblem(null)
+                      }}
+                      aria-invalid={addressProblem !== null}
                       className="bg-white/10 border-white/20 text-white placeholder:text-white/60 focus-visible:ring-white"
                     />
                     <Button type="submit" className="bg-white text-blue-900 hover:bg-white/90" disabled={loading}>
@@ -144,6 +203,29 @@ export default function StatisticsPage() {
                       Search
                     </Button>
                   </div>
+                  {addressProblem && (
+                    <div
+                      className="rounded-md border border-red-300/40 bg-red-500/20 px-3 py-2 text-left text-sm text-white"
+                      role="alert"
+                    >
+                      <p>{addressProblem.message}</p>
+                      {addressProblem.suggestions.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                          <p className="text-white/80">Did you mean:</p>
+                          {addressProblem.suggestions.map((suggestion) => (
+                            <button
+                              key={suggestion}
+                              type="button"
+                              onClick={() => searchFor(suggestion)}
+                              className="block break-all font-mono text-xs underline hover:text-white/80"
+                            >
+                              {suggestion}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                   <div className="flex gap-2">
                     <Button
                       type="button"
@@ -188,9 +270,9 @@ export default function StatisticsPage() {
 
                 {baker && (
                   <div className="flex items-center gap-2">
-                    {lastUpdated && (
-                      <Badge variant="secondary" className="text-xs">
-                        Cached: {lastUpdated.toLocaleTimeString()}
+                    {freshness && (
+                      <Badge variant="secondary">
+                        <FreshnessBadge freshness={freshness} lastUpdated={lastUpdated} retryAt={retryAt} error={error} />
                       </Badge>
                     )}
                     <Button onClick={refresh} size="sm" variant="outline" disabled={loading}>
@@ -201,14 +283,14 @@ export default function StatisticsPage() {
                 )}
               </div>
 
-              {loading && (
+              {loading && !baker && (
                 <div className="flex flex-col items-center justify-center py-12">
                   <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
                   <p className="text-muted-foreground">Loading baker data from cache or TzKT API...</p>
                 </div>
               )}
 
-              {error && (
+              {freshness === "error" && (
                 <div className="flex flex-col items-center justify-center py-12">
                   <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md text-center">
                     <h3 className="text-lg font-semibold text-red-800 mb-2">Error Loading Data</h3>
@@ -221,7 +303,8 @@ export default function StatisticsPage() {
                 </div>
               )}
 
-              {baker && !loading && (
+              {/* Kept on screen while refreshing or retrying, with its freshness in the header */}
+              {baker && (
                 <>
                   <div className="flex flex-col items-start space-y-4 mb-8">
                     <div className="space-y-2">
@@ -265,20 +348,26 @@ export default function StatisticsPage() {
                         <div className="space-y-4">
                           <div className="flex justify-between">
                             <span className="text-sm font-medium">Balance</span>
-                            <span>{formatXTZ(baker.balance)} XTZ</span>
+                            <span>
+                              {formatXTZ(baker.balance)} XTZ <QuoteValue amount={baker.balance} quote={currentQuote} />
+                            </span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-sm font-medium">Fee</span>
-                            <span>{formatPercentage(baker.fee)}</span>
+                            <span className="text-sm font-medium">Staker Fee (Edge)</span>
+                            <span>{formatEdge(baker.edgeOfBakingOverStaking)}</span>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-sm font-medium">Delegators</span>
                             <span>{baker.numDelegators.toLocaleString()}</span>
                           </div>
+                          <div className="flex justify-between">
+                            <span className="text-sm font-medium">Stakers</span>
+                            <span>{baker.stakersCount.toLocaleString()}</span>
+                          </div>
                           <div className="flex justify-between">
                             <span className="text-sm font-medium">Estimated APY</span>
                             <span className="text-green-600 font-medium">
-                              {baker.estimatedApy ? formatPercentage(baker.estimatedApy) : "N/A"}
+                              {estimatedApy > 0 ? formatPercentage(estimatedApy) : "N/A"}
                             </span>
                           </div>
                           {baker.software && (
@@ -291,40 +380,75 @@ export default function StatisticsPage() {
                       </CardContent>
                     </Card>
 
-                    <Card>
-                      <CardHeader className="pb-2">
-                        <CardTitle>Staking Balance</CardTitle>
-                        <CardDescription>Current staking capacity and usage</CardDescription>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-4">
-                          <div className="flex justify-between">
-                            <span className="text-sm font-medium">Delegated Balance</span>
-                            <span>{formatXTZ(baker.delegatedBalance)} XTZ</span>
-                          </div>
-                          <div className="flex justify-between">
-                            <span className="text-sm font-medium">Staking Balance</span>
-                            <span>{formatXTZ(baker.stakingBalance)} XTZ</span>
-                          </div>
-                          <div className="flex justify-between">
-                            <span className="text-sm font-medium">Staking Capacity</span>
-                            <span>{formatXTZ(baker.stakingCapacity)} XTZ</span>
+                    {staking && (
+                      <Card>
+                        <CardHeader className="pb-2">
+                          <CardTitle>Staking Balance</CardTitle>
+                          <CardDescription>
+                            How the staking balance makes up baking power
+                            {stakingConstants?.fallback && " (estimated with mainnet protocol constants)"}
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="space-y-4">
+                            <div className="flex justify-between">
+                              <span className="text-sm font-medium">Own Staked</span>
+                              <span>
+                                {formatXTZ(staking.ownStaked)} XTZ <QuoteValue amount={staking.ownStaked} quote={currentQuote} />
+                              </span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-sm font-medium">External Staked</span>
+                              <span>
+                                {formatXTZ(staking.externalStaked)} XTZ <QuoteValue amount={staking.externalStaked} quote={currentQuote} />
+                              </span>
+                            </div>
+                            {staking.overstaked > 0 && (
+                              <div className="flex justify-between">
+                                <span className="text-sm font-medium">Overstaked (counts as delegated)</span>
+                                <span className="text-amber-600">
+                                  {formatXTZ(staking.overstaked)} XTZ <QuoteValue amount={staking.overstaked} quote={currentQuote} />
+                                </span>
+                              </div>
+                            )}
+                            <div className="flex justify-between">
+                              <span className="text-sm font-medium">Own Delegated</span>
+                              <span>
+                                {formatXTZ(staking.ownDelegated)} XTZ <QuoteValue amount={staking.ownDelegated} quote={currentQuote} />
+                              </span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-sm font-medium">External Delegated</span>
+                              <span>
+                                {formatXTZ(staking.externalDelegated)} XTZ <QuoteValue amount={staking.externalDelegated} quote={currentQuote} />
+                              </span>
+                            </div>
+                            {staking.overdelegated > 0 && (
+                              <div className="flex justify-between">
+                                <span className="text-sm font-medium">Overdelegated (not counted)</span>
+                                <span className="text-red-500">
+                                  {formatXTZ(staking.overdelegated)} XTZ <QuoteValue amount={staking.overdelegated} quote={currentQuote} />
+                                </span>
+                              </div>
+                            )}
+                            <div className="flex justify-between border-t pt-4">
+                              <span className="text-sm font-medium">Baking Power</span>
+                              <span className="text-green-600 font-medium">{formatXTZ(staking.bakingPower)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-sm font-medium">External Staking Capacity Used</span>
+                              <span>{formatPercentage(stakingCapacityUsed)}</span>
+                            </div>
                           </div>
-                          <div className="flex justify-between">
-                            <span className="text-sm font-medium">Staking Efficiency</span>
-                            <span className="text-green-600 font-medium">
-                              {formatPercentage(baker.stakingEfficiency)}
-                            </span>
+                          <div className="mt-4 h-4 w-full bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-blue-600 rounded-full transition-all duration-300"
+                              style={{ width: `${Math.min(stakingCapacityUsed, 100)}%` }}
+                            ></div>
                           </div>
-                        </div>
-                        <div className="mt-4 h-4 w-full bg-gray-100 rounded-full overflow-hidden">
-                          <div
-                            className="h-full bg-blue-600 rounded-full transition-all duration-300"
-                            style={{ width: `${Math.min(baker.stakingEfficiency, 100)}%` }}
-                          ></div>
-                        </div>
-                      </CardContent>
-                    </Card>
+                        </CardContent>
+                      </Card>
+                    )}
 
                     <Card>
                       <CardHeader className="pb-2">
@@ -338,8 +462,8 @@ export default function StatisticsPage() {
                             <span>{baker.numBlocks.toLocaleString()}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-sm font-medium">Endorsements</span>
-                            <span>{baker.numEndorsements.toLocaleString()}</span>
+                            <span className="text-sm font-medium">Attestations</span>
+                            <span>{baker.numAttestations.toLocaleString()}</span>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-sm font-medium">Double Baking</span>
@@ -348,9 +472,9 @@ export default function StatisticsPage() {
                             </span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-sm font-medium">Double Endorsing</span>
-                            <span className={baker.numDoubleEndorsing > 0 ? "text-red-500" : ""}>
-                              {baker.numDoubleEndorsing}
+                            <span className="text-sm font-medium">Double Attestation</span>
+                            <span className={(baker.numDoubleAttestation ?? 0) > 0 ? "text-red-500" : ""}>
+                              {baker.numDoubleAttestation ?? "—"}
                             </span>
                           </div>
                         </div>
@@ -366,53 +490,12 @@ export default function StatisticsPage() {
                       <TabsTrigger value="details">Detailed Info</TabsTrigger>
                     </TabsList>
                     <TabsContent value="performance">
-                      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-                        <Card>
-                          <CardHeader>
-                            <CardTitle>Block Creation</CardTitle>
-                            <CardDescription>Total blocks created</CardDescription>
-                          </CardHeader>
-                          <CardContent className="flex items-center justify-center p-6">
-                            <div className="text-center">
-                              <div className="text-4xl font-bold text-blue-600 mb-2">
-                                {baker.numBlocks.toLocaleString()}
-                              </div>
-                              <BarChart3 className="h-16 w-16 mx-auto text-blue-300" />
-                              <p className="mt-2 text-sm text-muted-foreground">Total blocks</p>
-                            </div>
-                          </CardContent>
-                        </Card>
-                        <Card>
-                          <CardHeader>
-                            <CardTitle>Endorsements</CardTitle>
-                            <CardDescription>Total endorsements made</CardDescription>
-                          </CardHeader>
-                          <CardContent className="flex items-center justify-center p-6">
-                            <div className="text-center">
-                              <div className="text-4xl font-bold text-blue-600 mb-2">
-                                {baker.numEndorsements.toLocaleString()}
-                              </div>
-                              <LineChart className="h-16 w-16 mx-auto text-blue-300" />
-                              <p className="mt-2 text-sm text-muted-foreground">Total endorsements</p>
-                            </div>
-                          </CardContent>
-                        </Card>
-                        <Card>
-                          <CardHeader>
-                            <CardTitle>Delegator Distribution</CardTitle>
-                            <CardDescription>Number of delegators</CardDescription>
-                          </CardHeader>
-                          <CardContent className="flex items-center justify-center p-6">
-                            <div className="text-center">
-                              <div className="text-4xl font-bold text-blue-600 mb-2">
-                                {baker.numDelegators.toLocaleString()}
-                              </div>
-                              <PieChart className="h-16 w-16 mx-auto text-blue-300" />
-                              <p className="mt-2 text-sm text-muted-foreground">Active delegators</p>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      </div>
+                      {/* Keyed by address: a new search starts over with the default range and no previous baker's data */}
+                      <BakerPerformanceCharts
+                        key={baker.address}
+                        address={baker.address}
+                        currentCycle={cycle?.index ?? null}
+                      />
                     </TabsContent>
                     <TabsContent value="payouts">
                       <Card>
@@ -442,21 +525,18 @@ export default function StatisticsPage() {
                                     <div className="space-y-1">
                                       <p className="text-sm font-medium leading-none">Cycle {reward.cycle}</p>
                                       <p className="text-sm text-muted-foreground">
-                                        Blocks: {reward.blocks}/{reward.expectedBlocks} | Endorsements:{" "}
-                                        {reward.endorsements}/{reward.expectedEndorsements}
+                                        Blocks: {reward.blocks}/{reward.expectedBlocks} | Attestations:{" "}
+                                        {reward.attestations}/{reward.expectedAttestations}
                                       </p>
                                     </div>
                                   </div>
                                   <div className="text-right">
                                     <p className="text-sm font-medium">
-                                      {formatXTZ(reward.blockRewards + reward.endorsementRewards + reward.blockFees)}{" "}
+                                      {formatXTZ(getTotalRewards(reward), 2)}{" "}
                                       XTZ
                                     </p>
-                                    <p className="text-xs text-muted-foreground">
-                                      {reward.quote?.usd
-                                        ? `$${((reward.quote.usd * (reward.blockRewards + reward.endorsementRewards + reward.blockFees)) / 1000000).toFixed(2)}`
-                                        : ""}
-                                    </p>
+                                    {/* Converted with the quote of the reward's own cycle */}
+                                    <QuoteValue amount={getTotalRewards(reward)} quote={reward.quote} className="block" />
                                   </div>
                                 </div>
                               ))}
@@ -474,22 +554,35 @@ export default function StatisticsPage() {
                       <div className="grid gap-6 md:grid-cols-2">
                         <Card>
                           <CardHeader>
-                            <CardTitle>Frozen Balances</CardTitle>
-                            <CardDescription>Currently frozen amounts</CardDescription>
+                            <CardTitle>Staking Parameters</CardTitle>
+                            <CardDescription>Limits set by the baker and pending unstakes</CardDescription>
                           </CardHeader>
                           <CardContent>
                             <div className="space-y-4">
                               <div className="flex justify-between">
-                                <span className="text-sm font-medium">Frozen Deposits</span>
-                                <span>{formatXTZ(baker.frozenDeposits)} XTZ</span>
+                                <span className="text-sm font-medium">Staking Limit</span>
+                                <span>
+                                  {formatStakingLimit(baker.limitOfStakingOverBaking)} own stake
+                                  {stakingConstants &&
+                                    baker.limitOfStakingOverBaking / 1000000 > stakingConstants.globalLimitOfStakingOverBaking &&
+                                    ` (capped at ${stakingConstants.globalLimitOfStakingOverBaking}x)`}
+                                </span>
+                              </div>
+                              <div className="flex justify-between">
+                                <span className="text-sm font-medium">Edge Over Stakers</span>
+                                <span>{formatEdge(baker.edgeOfBakingOverStaking)}</span>
                               </div>
                               <div className="flex justify-between">
-                                <span className="text-sm font-medium">Frozen Rewards</span>
-                                <span>{formatXTZ(baker.frozenRewards)} XTZ</span>
+                                <span className="text-sm font-medium">Own Unstaked (pending)</span>
+                                <span>
+                                  {formatXTZ(baker.unstakedBalance)} XTZ <QuoteValue amount={baker.unstakedBalance} quote={currentQuote} />
+                                </span>
                               </div>
                               <div className="flex justify-between">
-                                <span className="text-sm font-medium">Frozen Fees</span>
-                                <span>{formatXTZ(baker.frozenFees)} XTZ</span>
+                                <span className="text-sm font-medium">External Unstaked (pending)</span>
+                                <span>
+                                  {formatXTZ(baker.externalUnstakedBalance)} XTZ <QuoteValue amount={baker.externalUnstakedBalance} quote={currentQuote} />
+                                </span>
                               </div>
                             </div>
                           </CardContent>
@@ -0,0 +1,441 @@
+/**
+ * Baker Performance Charts
+ *
+ * Per-cycle charts built from a baker's reward records, for the statistics
+ * page: blocks baked against expected, attestations made and missed, and
+ * rewards over time. The range of completed cycles is selectable, so drops
+ * in performance are easy to spot. Plain SVG and CSS, no chart library.
+ */
+
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { FreshnessBadge } from "@/components/data-freshness"
+import { useBakerRewardsHistory } from "@/hooks/use-tzkt-data-cached"
+import { formatXTZ, getTotalRewards, type BakerRewards } from "@/lib/tzkt-api"
+import { cn } from "@/lib/utils"
+
+// Range presets, in completed cycles
+const RANGE_PRESETS = [10, 30, 60, 120]
+const DEFAULT_RANGE = 30
+const MAX_RANGE = 120
+
+interface CycleRange {
+  from: number
+  to: number
+}
+
+/**
+ * One cycle of the range, with the baker's record if there is one
+ */
+interface CycleRecord {
+  cycle: number
+  reward: BakerRewards | null   // null when the baker had no rights (e.g. inactive)
+}
+
+/**
+ * Performance charts of a baker over a selectable range of completed cycles
+ *
+ * Features:
+ * - Range presets (last 10 to 120 cycles) and a custom from / to range
+ * - Blocks baked and missed against expected, per cycle
+ * - Attestations made and missed against expected, per cycle
+ * - Total rewards per cycle
+ * - Every cycle of the range is shown: cycles without a record stay visible as gaps
+ * - Per-cycle values on hover, range totals in each card
+ *
+ * Render with `key={address}`: the selected range and the data shown while
+ * another range loads belong to one baker.
+ *
+ * @param address - Baker's Tezos address
+ * @param currentCycle - Index of the current cycle (null while loading)
+ */
+export function BakerPerformanceCharts({ address, currentCycle }: { address: string; currentCycle: number | null }) {
+  const lastCompleted = currentCycle !== null ? currentCycle - 1 : null
+
+  const [range, setRange] = useState<CycleRange | null>(null)
+  const [draft, setDraft] = useState({ from: "", to: "" })
+  const [rangeError, setRangeError] = useState<string | null>(null)
+
+  const { rewards, cycles, loading, error, freshness, lastUpdated, retryAt } = useBakerRewardsHistory(
+    range ? address : null,
+    range?.from ?? 0,
+    range?.to ?? -1,
+  )
+
+  const selectRange = (selected: CycleRange) => {
+    setRange(selected)
+    setDraft({ from: String(selected.from), to: String(selected.to) })
+    setRangeError(null)
+  }
+
+  const selectPreset = (length: number) => {
+    if (lastCompleted === null) return
+    selectRange({ from: Math.max(0, lastCompleted - length + 1), to: lastCompleted })
+  }
+
+  // Latest completed cycles by default, once the current cycle is known
+  useEffect(() => {
+    if (lastCompleted === null || range) return
+    selectRange({ from: Math.max(0, lastCompleted - DEFAULT_RANGE + 1), to: lastCompleted })
+  }, [lastCompleted, range])
+
+  const handleRangeSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (lastCompleted === null) return
+
+    const from = Number.parseInt(draft.from, 10)
+    const to = Number.parseInt(draft.to, 10)
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || from > to) {
+      setRangeError("Enter a first cycle lower than or equal to the last cycle")
+    } else if (to > lastCompleted) {
+      setRangeError(`The last completed cycle is ${lastCompleted}`)
+    } else if (to - from + 1 > MAX_RANGE) {
+      setRangeError(`Select at most ${MAX_RANGE} cycles`)
+    } else {
+      selectRange({ from, to })
+    }
+  }
+
+  const rangeLength = range ? range.to - range.from + 1 : null
+  const records = fillCycles(rewards, cycles)
+  const gaps = records.filter((record) => record.reward === null).length
+
+  return (
+    <div className="space-y-6">
+      {/* ========== Cycle Range Selection ========== */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-wrap gap-2">
+          {RANGE_PRESETS.map((length) => (
+            <Button
+              key={length}
+              size="sm"
+              variant={rangeLength === length && range?.to === lastCompleted ? "default" : "outline"}
+              onClick={() => selectPreset(length)}
+              disabled={lastCompleted === null}
+            >
+              Last {length} cycles
+            </Button>
+          ))}
+        </div>
+        <form onSubmit={handleRangeSubmit} className="flex items-end gap-2">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>From cycle</span>
+            <Input
+              type="number"
+              min={0}
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              className="h-9 w-28"
+            />
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            <span>To cycle</span>
+            <Input
+              type="number"
+              min={0}
+              max={lastCompleted ?? undefined}
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className="h-9 w-28"
+            />
+          </label>
+          <Button type="submit" size="sm" variant="outline" disabled={lastCompleted === null}>
+            Show
+          </Button>
+        </form>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span>
+          {range ? `Completed cycles ${range.from} to ${range.to}` : "Waiting for the current cycle..."}
+          {gaps > 0 && rewards.length > 0 && ` · ${gaps} without rewards record`}
+          {rangeError && <span className="ml-3 text-red-600">{rangeError}</span>}
+        </span>
+        <FreshnessBadge freshness={freshness} lastUpdated={lastUpdated} retryAt={retryAt} error={error} />
+      </div>
+
+      {/* ========== Charts ========== */}
+      {loading && rewards.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-4"></div>
+          <p className="text-muted-foreground">Loading rewards history...</p>
+        </div>
+      ) : freshness === "error" ? (
+        <p className="py-12 text-center text-sm text-red-600">{error}</p>
+      ) : rewards.length === 0 ? (
+        <p className="py-12 text-center text-sm text-muted-foreground">No rewards records in this range: the baker had no rights in these cycles</p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <BlocksChart records={records} />
+          <AttestationsChart records={records} />
+          <RewardsChart records={records} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============ Chart Cards ============
+
+/**
+ * Blocks baked and missed per cycle, against the expected number
+ */
+function BlocksChart({ records }: { records: CycleRecord[] }) {
+  const rewards = recordedRewards(records)
+  const baked = sum(rewards.map((reward) => reward.blocks))
+  const expected = sum(rewards.map((reward) => reward.expectedBlocks))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Block Creation</CardTitle>
+        <CardDescription>
+          {baked.toLocaleString()} blocks baked of {formatCount(expected)} expected ({formatRatio(baked, expected)})
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <CycleBarChart
+          bars={records.map(({ cycle, reward }) => ({
+            cycle,
+            missing: reward === null,
+            expected: reward?.expectedBlocks ?? 0,
+            segments: [
+              { name: "Baked", value: reward?.blocks ?? 0, className: "bg-blue-600" },
+              { name: "Missed", value: reward?.missedBlocks ?? 0, className: "bg-red-500" },
+            ],
+          }))}
+        />
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Attestation slots made and missed per cycle, against the expected number
+ */
+function AttestationsChart({ records }: { records: CycleRecord[] }) {
+  const rewards = recordedRewards(records)
+  const made = sum(rewards.map((reward) => reward.attestations))
+  const missed = sum(rewards.map((reward) => reward.missedAttestations))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attestations</CardTitle>
+        <CardDescription>
+          {made.toLocaleString()} slots attested, {missed.toLocaleString()} missed ({formatRatio(made, made + missed)} made)
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <CycleBarChart
+          bars={records.map(({ cycle, reward }) => ({
+            cycle,
+            missing: reward === null,
+            expected: reward?.expectedAttestations ?? 0,
+            segments: [
+              { name: "Made", value: reward?.attestations ?? 0, className: "bg-green-500" },
+              { name: "Missed", value: reward?.missedAttestations ?? 0, className: "bg-red-500" },
+            ],
+          }))}
+        />
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Total rewards per cycle (baking, attestations, revelations and fees)
+ */
+function RewardsChart({ records }: { records: CycleRecord[] }) {
+  const total = sum(recordedRewards(records).map(getTotalRewards))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rewards</CardTitle>
+        <CardDescription>
+          {formatXTZ(total, 2)} XTZ over {records.length} cycles
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <CycleLineChart
+          points={records.map(({ cycle, reward }) => ({
+            cycle,
+            missing: reward === null,
+            value: reward ? getTotalRewards(reward) : 0,
+          }))}
+          formatValue={(value) => `${formatXTZ(value, 2)} XTZ`}
+        />
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============ Charts ============
+
+interface BarSegment {
+  name: string                // Legend and tooltip label
+  value: number
+  className: string           // Background color class
+}
+
+interface CycleBar {
+  cycle: number
+  missing: boolean            // No record for the cycle: drawn as an empty, shaded column
+  segments: BarSegment[]      // Stacked from the bottom
+  expected: number            // Drawn as a dashed marker
+}
+
+/**
+ * Stacked bars per cycle with an expected-value marker
+ * Oldest cycle on the left; each column shows its values on hover
+ */
+function CycleBarChart({ bars }: { bars: CycleBar[] }) {
+  const max = Math.max(1, ...bars.map((bar) => Math.max(bar.expected, sum(bar.segments.map((segment) => segment.value)))))
+  const legend = bars[0]?.segments ?? []
+
+  return (
+    <div className="space-y-2">
+      <div className="flex text-xs text-muted-foreground">
+        <span>{formatCount(max)}</span>
+      </div>
+      <div className="flex h-40 items-stretch gap-px border-b border-l">
+        {bars.map((bar) => (
+          <div
+            key={bar.cycle}
+            className={cn("relative flex flex-1 flex-col-reverse hover:bg-muted", bar.missing && "bg-muted/60")}
+            title={
+              bar.missing
+                ? `Cycle ${bar.cycle}\nNo rewards record`
+                : [
+                    `Cycle ${bar.cycle}`,
+                    ...bar.segments.map((segment) => `${segment.name}: ${segment.value.toLocaleString()}`),
+                    `Expected: ${formatCount(bar.expected)}`,
+                  ].join("\n")
+            }
+          >
+            {bar.segments.map((segment) => (
+              <div key={segment.name} className={segment.className} style={{ height: `${(segment.value / max) * 100}%` }} />
+            ))}
+            <div
+              className="absolute inset-x-0 border-t-2 border-dashed border-foreground/50"
+              style={{ bottom: `${(bar.expected / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <CycleAxis first={bars[0]?.cycle} last={bars[bars.length - 1]?.cycle} />
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {legend.map((segment) => (
+          <span key={segment.name} className="flex items-center gap-1">
+            <span className={cn("h-2 w-2 rounded-sm", segment.className)} />
+            {segment.name}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="w-3 border-t-2 border-dashed border-foreground/50" />
+          Expected
+        </span>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Line of one value per cycle, with the area below it
+ * Oldest cycle on the left; each cycle shows its value on hover
+ */
+function CycleLineChart({
+  points,
+  formatValue,
+}: {
+  points: Array<{ cycle: number; value: number; missing: boolean }>
+  formatValue: (value: number) => string
+}) {
+  const max = Math.max(1, ...points.map((point) => point.value))
+  const x = (index: number) => (points.length === 1 ? 50 : (index / (points.length - 1)) * 100)
+  const y = (value: number) => 100 - (value / max) * 100
+  const line = points.map((point, index) => `${x(index)},${y(point.value)}`).join(" ")
+
+  return (
+    <div className="space-y-2">
+      <div className="flex text-xs text-muted-foreground">
+        <span>{formatValue(max)}</span>
+      </div>
+      <div className="relative h-40 border-b border-l">
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 h-full w-full" aria-hidden="true">
+          <polygon points={`0,100 ${line} 100,100`} className="fill-blue-600/15" />
+          <polyline
+            points={line}
+            fill="none"
+            className="stroke-blue-600"
+            strokeWidth={2}
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+        {/* Hover targets, one per cycle */}
+        <div className="absolute inset-0 flex">
+          {points.map((point) => (
+            <div
+              key={point.cycle}
+              className={cn("flex-1 hover:bg-muted/60", point.missing && "bg-muted/40")}
+              title={`Cycle ${point.cycle}\n${point.missing ? "No rewards record" : formatValue(point.value)}`}
+            />
+          ))}
+        </div>
+      </div>
+      <CycleAxis first={points[0]?.cycle} last={points[points.length - 1]?.cycle} />
+    </div>
+  )
+}
+
+/**
+ * First and last cycle under a chart
+ */
+function CycleAxis({ first, last }: { first?: number; last?: number }) {
+  return (
+    <div className="flex justify-between text-xs text-muted-foreground">
+      <span>{first !== undefined && `Cycle ${first}`}</span>
+      <span>{last !== undefined && last !== first && `Cycle ${last}`}</span>
+    </div>
+  )
+}
+
+// ============ Helpers ============
+
+/**
+ * Every cycle of the range the records cover, oldest first
+ * Cycles without a record are kept, so inactive periods show up as gaps.
+ */
+function fillCycles(rewards: BakerRewards[], cycles: CycleRange | null): CycleRecord[] {
+  if (!cycles) return []
+
+  const byCycle = new Map(rewards.map((reward) => [reward.cycle, reward]))
+  return Array.from({ length: cycles.to - cycles.from + 1 }, (_, index) => {
+    const cycle = cycles.from + index
+    return { cycle, reward: byCycle.get(cycle) ?? null }
+  })
+}
+
+function recordedRewards(records: CycleRecord[]): BakerRewards[] {
+  return records.flatMap(({ reward }) => (reward ? [reward] : []))
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 })
+}
+
+function formatRatio(value: number, total: number): string {
+  return total > 0 ? `${((value / total) * 100).toFixed(1)}%` : "—"
+}
@@ -0,0 +1,25 @@
+/**
+ * Cache Metrics Export Component
+ *
+ * Sends the per-family cache metrics to PostHog when enabled with
+ * NEXT_PUBLIC_CACHE_METRICS_EXPORT=posthog (see lib/cache-metrics.ts).
+ * Renders nothing.
+ */
+
+"use client"
+
+import { useEffect } from "react"
+import { cacheManager } from "@/lib/cache-manager"
+import { isMetricsExportEnabled, startMetricsExport } from "@/lib/cache-metrics"
+
+/**
+ * Starts the metrics export for the lifetime of the page
+ */
+export function CacheMetricsExport() {
+  useEffect(() => {
+    if (!isMetricsExportEnabled()) return
+    return startMetricsExport(cacheManager)
+  }, [])
+
+  return null
+}
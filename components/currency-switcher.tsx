@@ -0,0 +1,47 @@
+/**
+ * Currency Switcher Component
+ *
+ * Lets the user choose a currency that balances are converted to
+ * (in addition to XTZ), using TzKT price quotes
+ */
+
+"use client"
+
+import type React from "react"
+
+import { useDisplayCurrency } from "@/hooks/use-display-currency"
+import { DISPLAY_CURRENCIES, getCurrencyLabel, isDisplayCurrency } from "@/lib/currency"
+import { cn } from "@/lib/utils"
+
+/**
+ * Currency selector
+ */
+export function CurrencySwitcher({ className }: { className?: string }) {
+  const { currency, setCurrency } = useDisplayCurrency()
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (isDisplayCurrency(e.target.value)) {
+      setCurrency(e.target.value)
+    }
+  }
+
+  return (
+    <div className={cn("flex items-center", className)}>
+      <label htmlFor="currency-switcher" className="sr-only">
+        Display currency
+      </label>
+      <select
+        id="currency-switcher"
+        value={currency}
+        onChange={handleChange}
+        className="h-8 rounded-md border border-white/20 bg-transparent px-2 text-sm font-medium text-current outline-none focus-visible:ring-2 focus-visible:ring-brand-blue-600 [&>option]:text-black"
+      >
+        {DISPLAY_CURRENCIES.map((code) => (
+          <option key={code} value={code}>
+            {getCurrencyLabel(code)}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+/**
+ * Data Freshness Components
+ *
+ * Tell how current the values of a stats card are: their age and freshness
+ * state (see useTzktQuery), the countdown to the next retry after a failure,
+ * and a warning when the values shown are placeholders.
+ */
+
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { AlertTriangle } from "lucide-react"
+
+import type { DataFreshness } from "@/hooks/use-tzkt-query"
+import { cn } from "@/lib/utils"
+
+// Dot color and label per freshness state
+const FRESHNESS_STYLES: Record<DataFreshness, { dot: string; label: string }> = {
+  fresh: { dot: "bg-green-500", label: "Updated" },
+  stale: { dot: "bg-amber-500", label: "Stale, updated" },
+  fallback: { dot: "bg-yellow-400", label: "Placeholder values" },
+  error: { dot: "bg-red-500", label: "Unavailable" },
+}
+
+// Freshness states from best to worst
+const FRESHNESS_ORDER: DataFreshness[] = ["fresh", "stale", "fallback", "error"]
+
+/**
+ * Age and freshness of a card's data, with the retry countdown after a failure
+ * The error of the last failed request or refresh is shown on hover
+ */
+export function FreshnessBadge({
+  freshness,
+  lastUpdated,
+  retryAt,
+  error,
+  className,
+}: {
+  freshness: DataFreshness | null
+  lastUpdated: Date | null
+  retryAt?: Date | null
+  error?: string | null
+  className?: string
+}) {
+  const now = useNow(1000)
+
+  if (!freshness) return null
+
+  const { dot, label } = FRESHNESS_STYLES[freshness]
+  const showAge = lastUpdated && (freshness === "fresh" || freshness === "stale")
+  const retryIn = retryAt ? Math.max(0, retryAt.getTime() - now) : null
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1.5 text-xs whitespace-nowrap", className)}
+      title={error ?? undefined}
+      role="status"
+    >
+      <span className={cn("h-2 w-2 rounded-full", dot)} aria-hidden="true" />
+      {label}
+      {showAge && ` ${formatAge(now - lastUpdated.getTime())}`}
+      {retryIn !== null && <span className="opacity-70">· retrying in {formatCountdown(retryIn)}</span>}
+    </span>
+  )
+}
+
+/**
+ * Warning shown in place of, or next to, values that are not live data
+ */
+export function PlaceholderWarning({ children, className }: { children: React.ReactNode; className?: string }) {
+  return (
+    <p
+      className={cn(
+        "flex items-start gap-2 rounded-md border border-yellow-400/30 bg-yellow-400/10 px-3 py-2 text-xs text-yellow-400",
+        className,
+      )}
+      role="alert"
+    >
+      <AlertTriangle className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+      <span>{children}</span>
+    </p>
+  )
+}
+
+/**
+ * Least current of several freshness states, for cards combining several queries
+ * @returns The worst state, or null while one of them is still unknown
+ */
+export function worstFreshness(...states: Array<DataFreshness | null>): DataFreshness | null {
+  if (states.some((state) => state === null)) return null
+  return states.reduce<DataFreshness>(
+    (worst, state) => (FRESHNESS_ORDER.indexOf(state!) > FRESHNESS_ORDER.indexOf(worst) ? state! : worst),
+    "fresh",
+  )
+}
+
+// ============ Private Helpers ============
+
+/**
+ * Current time, updated at an interval so ages and countdowns tick
+ */
+function useNow(intervalMs: number): number {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  if (seconds < 60) return `${seconds}s ago`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`
+  return `${Math.floor(seconds / 86400)} d ago`
+}
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.ceil(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+}
@@ -0,0 +1,93 @@
+/**
+ * Network Switcher Component
+ *
+ * Lets the user choose which Tezos network the portal reads data from
+ * Supports Mainnet, Ghostnet and a custom TzKT indexer URL
+ */
+
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useTezosNetwork } from "@/hooks/use-tezos-network"
+import { NETWORK_IDS, isTezosNetworkId, resolveNetwork } from "@/lib/tezos-network"
+import { cn } from "@/lib/utils"
+
+/**
+ * Network selector with an inline URL field for custom indexers
+ */
+export function NetworkSwitcher({ className }: { className?: string }) {
+  const { network, setNetwork } = useTezosNetwork()
+  const [editingCustom, setEditingCustom] = useState(false)
+  const [customUrl, setCustomUrl] = useState("")
+
+  // Keep the URL field in sync with the active custom indexer
+  useEffect(() => {
+    if (network.id === "custom") {
+      setCustomUrl(network.tzktApiBase)
+    }
+  }, [network])
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value
+    if (!isTezosNetworkId(value)) return
+
+    if (value === "custom") {
+      setEditingCustom(true)
+      return
+    }
+
+    setEditingCustom(false)
+    setNetwork(value)
+  }
+
+  const handleCustomSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (customUrl.trim()) {
+      setNetwork("custom", customUrl.trim())
+      setEditingCustom(false)
+    }
+  }
+
+  const selected = editingCustom ? "custom" : network.id
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <label htmlFor="network-switcher" className="sr-only">
+        Tezos network
+      </label>
+      <select
+        id="network-switcher"
+        value={selected}
+        onChange={handleChange}
+        className="h-8 rounded-md border border-white/20 bg-transparent px-2 text-sm font-medium text-current outline-none focus-visible:ring-2 focus-visible:ring-brand-blue-600 [&>option]:text-black"
+      >
+        {NETWORK_IDS.map((id) => (
+          <option key={id} value={id}>
+            {resolveNetwork(id).label}
+          </option>
+        ))}
+      </select>
+
+      {editingCustom && (
+        <form onSubmit={handleCustomSubmit} className="flex items-center gap-2">
+          <Input
+            type="url"
+            placeholder="http://localhost:5000"
+            value={customUrl}
+            onChange={(e) => setCustomUrl(e.target.value)}
+            className="h-8 w-48 border-white/20 text-sm"
+            aria-label="Custom TzKT API URL"
+          />
+          <Button type="submit" size="sm" variant="outline" className="h-8 bg-transparent">
+            Apply
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+/**
+ * Quote Value Component
+ *
+ * Shows an XTZ amount converted to the user's display currency,
+ * e.g. "≈ $1,234.56". Renders nothing when XTZ is selected or when
+ * the quote has no price for the selected currency.
+ */
+
+"use client"
+
+import { useDisplayCurrency } from "@/hooks/use-display-currency"
+import { formatQuote } from "@/lib/currency"
+import type { Quote } from "@/lib/tzkt-api"
+import { cn } from "@/lib/utils"
+
+/**
+ * Converted value of an amount
+ * @param amount - Amount in mutez
+ * @param quote - Price quote to convert with (current, or the cycle's own quote for historical rows)
+ */
+export function QuoteValue({ amount, quote, className }: { amount: number; quote?: Quote; className?: string }) {
+  const { currency } = useDisplayCurrency()
+  const converted = formatQuote(amount, quote, currency)
+
+  if (!converted) return null
+
+  return <span className={cn("text-xs text-muted-foreground", className)}>≈ {converted}</span>
+}
@@ -5,6 +5,10 @@ export const networkStatsContent = {
     title: "Current APY",
     description: "Estimated annual percentage yield for staking and delegating XTZ",
     label: "Annual Yield",
+    source: {
+      providedBy: "APY data provided by",
+      fallback: "Placeholder values: live APY is unavailable, these are typical values, not current network data",
+    },
     buttons: {
       historical: {
         text: "Historical data",
@@ -23,8 +27,11 @@ export const networkStatsContent = {
       activeBakers: "Active Bakers",
       totalStaked: "Total Staked XTZ",
       currentCycle: "Current Cycle",
+      currentLevel: "Current Level",
+      live: "Live updates",
       blockTime: "Block Time",
     },
+    unavailable: "Some live network data is unavailable: missing values are shown as —",
     link: {
       text: "View detailed analytics",
       href: "https://tzkt.io/stats",
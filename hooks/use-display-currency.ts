@@ -0,0 +1,36 @@
+"use client"
+
+/**
+ * React Hook for the Display Currency
+ *
+ * Exposes the currency balances are converted to and a setter for
+ * changing it. Components re-render whenever the currency changes.
+ */
+
+import { useCallback, useSyncExternalStore } from "react"
+import {
+  getDisplayCurrency,
+  setDisplayCurrency,
+  subscribeToDisplayCurrency,
+  type DisplayCurrency,
+} from "@/lib/currency"
+
+/**
+ * Hook to read and change the display currency
+ *
+ * Features:
+ * - Subscribes to currency changes from any component
+ * - Shows XTZ only during server rendering
+ * - Persists the selection through the currency module
+ *
+ * @returns Object containing the display currency and a function to change it
+ */
+export function useDisplayCurrency() {
+  const currency = useSyncExternalStore(subscribeToDisplayCurrency, getDisplayCurrency, () => "xtz" as const)
+
+  const setCurrency = useCallback((next: DisplayCurrency) => {
+    setDisplayCurrency(next)
+  }, [])
+
+  return { currency, setCurrency }
+}
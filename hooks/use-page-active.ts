@@ -0,0 +1,39 @@
+"use client"
+
+/**
+ * React Hook for Page Visibility and Connectivity
+ *
+ * Scheduled refreshes pause while the tab is hidden or the browser is
+ * offline (see use-tzkt-query.ts).
+ */
+
+import { useSyncExternalStore } from "react"
+
+function subscribe(onChange: () => void): () => void {
+  document.addEventListener("visibilitychange", onChange)
+  window.addEventListener("online", onChange)
+  window.addEventListener("offline", onChange)
+
+  return () => {
+    document.removeEventListener("visibilitychange", onChange)
+    window.removeEventListener("online", onChange)
+    window.removeEventListener("offline", onChange)
+  }
+}
+
+function isPageActive(): boolean {
+  return !document.hidden && navigator.onLine
+}
+
+/**
+ * Hook telling whether the page is visible and the browser online
+ *
+ * Features:
+ * - Re-renders when the tab is hidden or shown, and when connectivity changes
+ * - Reports active during server rendering
+ *
+ * @returns Whether scheduled refreshes should run
+ */
+export function usePageActive(): boolean {
+  return useSyncExternalStore(subscribe, isPageActive, () => true)
+}
@@ -0,0 +1,29 @@
+"use client"
+
+/**
+ * React Hook for the Cross-tab Polling Leader
+ *
+ * Only one visible portal tab runs scheduled refreshes and the TzKT event
+ * client; the others receive its cache updates (see lib/cache-sync.ts).
+ */
+
+import { useEffect, useSyncExternalStore } from "react"
+import { cacheSync } from "@/lib/cache-sync"
+
+/**
+ * Hook telling whether this tab is the polling leader
+ *
+ * Features:
+ * - Starts cross-tab cache synchronisation on first use
+ * - Re-renders when this tab gains or loses the leader role
+ * - Reports follower during server rendering
+ *
+ * @returns Whether this tab should run scheduled refreshes
+ */
+export function usePollingLeader(): boolean {
+  useEffect(() => {
+    cacheSync.start()
+  }, [])
+
+  return useSyncExternalStore(cacheSync.subscribeToLeadership, cacheSync.isLeader, () => false)
+}
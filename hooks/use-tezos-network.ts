@@ -0,0 +1,41 @@
+"use client"
+
+/**
+ * React Hook for the Active Tezos Network
+ *
+ * Exposes the network currently used by the TzKT client and a setter
+ * for switching networks. Components re-render (and data hooks refetch)
+ * whenever the network changes.
+ */
+
+import { useCallback, useSyncExternalStore } from "react"
+import {
+  getActiveNetwork,
+  getDefaultNetwork,
+  setActiveNetwork,
+  subscribeToNetwork,
+  type TezosNetworkId,
+} from "@/lib/tezos-network"
+
+// Server snapshot must be stable between calls
+const serverNetwork = getDefaultNetwork()
+
+/**
+ * Hook to read and change the active Tezos network
+ *
+ * Features:
+ * - Subscribes to network changes from any component
+ * - Uses the environment default during server rendering
+ * - Persists the selection through the network module
+ *
+ * @returns Object containing the active network and a function to switch networks
+ */
+export function useTezosNetwork() {
+  const network = useSyncExternalStore(subscribeToNetwork, getActiveNetwork, () => serverNetwork)
+
+  const setNetwork = useCallback((id: TezosNetworkId, customUrl?: string) => {
+    setActiveNetwork(id, customUrl)
+  }, [])
+
+  return { network, setNetwork }
+}
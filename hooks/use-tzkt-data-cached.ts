@@ -6,31 +6,45 @@
  * This module provides React hooks for fetching and managing Tezos blockchain data.
  * All hooks include:
  * - Automatic data fetching and caching
- * - Loading and error states
+ * - Loading and error states (errors are translated into user-facing messages)
+ * - Data freshness (fresh / stale / fallback / error) and the next retry after a failure
  * - Manual refresh functionality
- * - Automatic background updates
+ * - Automatic background updates, paused while the tab is hidden or offline and
+ *   backing off after failures; stale data is refetched when the tab comes back
  * - Last updated timestamp
  * 
  * These hooks wrap the cached API functions and provide a React-friendly interface.
+ * Data hooks are built on useTzktQuery (see use-tzkt-query.ts) and refetch
+ * automatically when the active Tezos network changes.
+ *
+ * With several tabs open, only the polling leader tab runs the network-wide
+ * auto-refreshes; the other tabs pick up its results through the shared
+ * cache (see lib/cache-sync.ts). "Last updated" is the time the data was
+ * fetched, so every tab shows the same value.
  */
 
-import { useState, useEffect, useCallback, useRef } from "react"
+import { useState, useEffect, useCallback, useSyncExternalStore } from "react"
 import {
   getNetworkStats,
   getCurrentCycle,
   getActiveBakers,
   getBakerDetails,
   getBakerRewards,
+  getBakerRewardsRange,
   getBakersStats,
+  getStakingConstants,
   preloadCriticalData,
   invalidateBakerCache,
+  invalidateBakerListCache,
   invalidateNetworkCache,
-  type NetworkStats,
-  type Cycle,
-  type Baker,
-  type BakerRewards,
+  refetchCacheKey,
 } from "@/lib/tzkt-api-cached"
-import { cacheManager } from "@/lib/cache-manager"
+import { cacheManager, CacheKeys } from "@/lib/cache-manager"
+import { getErrorMessage, getLatencyStats } from "@/lib/tzkt-fetch"
+import { tzktEvents } from "@/lib/tzkt-events"
+import { useTezosNetwork } from "@/hooks/use-tezos-network"
+import { usePollingLeader } from "@/hooks/use-polling-leader"
+import { useTzktQuery } from "@/hooks/use-tzkt-query"
 
 /**
  * Hook to fetch and manage network statistics
@@ -38,50 +52,45 @@ import { cacheManager } from "@/lib/cache-manager"
  * Features:
  * - Fetches network stats and current cycle
  * - Caches data for 5 minutes
- * - Auto-refreshes every 5 minutes
+ * - Auto-refreshes every 5 minutes (polling leader tab only)
+ * - Live head and cycle updates through TzKT event subscriptions (head polling as fallback),
+ *   run by the polling leader tab and shared with the others
  * - Manual refresh with cache invalidation
  * 
- * @returns Object containing stats, cycle, loading state, error, last updated time, and refresh function
+ * @returns Object containing stats, cycle, loading state, error, freshness, last updated time, next retry, real-time status, and refresh function
  */
 export function useNetworkStats() {
-  const [stats, setStats] = useState<NetworkStats | null>(null)
-  const [cycle, setCycle] = useState<Cycle | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
-
-  const fetchData = useCallback(async (force = false) => {
-    try {
-      setLoading(true)
-
-      if (force) {
-        invalidateNetworkCache()
-      }
-
-      const [networkStats, currentCycle] = await Promise.all([getNetworkStats(), getCurrentCycle()])
-
-      setStats(networkStats)
-      setCycle(currentCycle)
-      setError(null)
-      setLastUpdated(new Date())
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch network stats")
-    } finally {
-      setLoading(false)
-    }
-  }, [])
+  const isLeader = usePollingLeader()
+  const realtimeStatus = useSyncExternalStore(tzktEvents.subscribeToStatus, tzktEvents.getStatus, () => "idle" as const)
+
+  const { data, loading, error, freshness, lastUpdated, retryAt, refresh } = useTzktQuery({
+    queryKey: ["network_stats"],
+    queryFn: (signal) => Promise.all([getNetworkStats(signal), getCurrentCycle(signal)]),
+    // Head and cycle updates are pushed into these entries between refreshes
+    cacheKeys: [CacheKeys.networkStats(), CacheKeys.currentCycle()],
+    invalidate: invalidateNetworkCache,
+    refetchInterval: 5 * 60 * 1000,
+    errorMessage: "Failed to fetch network stats",
+  })
 
   useEffect(() => {
-    fetchData()
-
-    // Auto-refresh every 5 minutes
-    const interval = setInterval(() => fetchData(), 5 * 60 * 1000)
-    return () => clearInterval(interval)
-  }, [fetchData])
-
-  const refresh = useCallback(() => fetchData(true), [fetchData])
-
-  return { stats, cycle, loading, error, lastUpdated, refresh }
+    if (!isLeader) return
+
+    // Shared socket; it follows network changes by itself
+    return tzktEvents.retain()
+  }, [isLeader])
+
+  return {
+    stats: data?.[0] ?? null,
+    cycle: data?.[1] ?? null,
+    loading,
+    error,
+    freshness,
+    lastUpdated,
+    retryAt,
+    realtimeStatus,
+    refresh,
+  }
 }
 
 /**
@@ -90,194 +99,137 @@ export function useNetworkStats() {
  * Features:
  * - Fetches list of active bakers sorted by staking balance
  * - Caches data for 10 minutes
- * - Auto-refreshes every 10 minutes
- * - Supports custom limit
+ * - Auto-refreshes every 10 minutes (polling leader tab only)
+ * - Picks up lists fetched by other tabs
+ * - Supports custom limit, keeping the current list while another limit loads
  * 
  * @param limit - Number of bakers to fetch (default: 50)
- * @returns Object containing bakers array, loading state, error, last updated time, and refresh function
+ * @returns Object containing bakers array, loading state, error, freshness, last updated time, next retry, and refresh function
  */
 export function useActiveBakers(limit = 50) {
-  const [bakers, setBakers] = useState<Baker[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
-
-  const fetchBakers = useCallback(
-    async (force = false) => {
-      try {
-        setLoading(true)
-
-        if (force) {
-          cacheManager.invalidatePattern(`active_bakers_.*`)
-        }
-
-        const activeBakers = await getActiveBakers(limit)
-        setBakers(activeBakers)
-        setError(null)
-        setLastUpdated(new Date())
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to fetch bakers")
-      } finally {
-        setLoading(false)
-      }
-    },
-    [limit],
-  )
-
-  useEffect(() => {
-    fetchBakers()
-
-    // Auto-refresh every 10 minutes
-    const interval = setInterval(() => fetchBakers(), 10 * 60 * 1000)
-    return () => clearInterval(interval)
-  }, [fetchBakers])
-
-  const refresh = useCallback(() => fetchBakers(true), [fetchBakers])
-
-  return { bakers, loading, error, lastUpdated, refresh }
+  const { data, loading, error, freshness, lastUpdated, retryAt, refresh } = useTzktQuery({
+    queryKey: ["active_bakers", limit],
+    queryFn: (signal) => getActiveBakers(limit, signal),
+    cacheKeys: [CacheKeys.activeBakers(limit)],
+    invalidate: invalidateBakerListCache,
+    refetchInterval: 10 * 60 * 1000,
+    keepPreviousData: true,
+    errorMessage: "Failed to fetch bakers",
+  })
+
+  return { bakers: data ?? [], loading, error, freshness, lastUpdated, retryAt, refresh }
 }
 
 /**
  * Hook to fetch and manage details for a specific baker
  * 
  * Features:
- * - Fetches baker details and reward history
+ * - Fetches baker details, reward history and the protocol constants of the staking model
  * - Caches baker details for 2 minutes
- * - Caches rewards for 30 minutes
- * - Cancels pending requests when address changes
+ * - Keeps finalized rewards indefinitely; current cycle rewards expire with the next block
+ * - Cancels pending requests when address changes (network calls included)
  * - Returns null if no address provided
  * 
  * @param address - Baker's Tezos address (null to skip fetching)
- * @returns Object containing baker details, rewards, loading state, error, last updated time, and refresh function
+ * @returns Object containing baker details, rewards, staking constants, loading state, error, freshness, last updated time, next retry, and refresh function
  */
 export function useBakerDetails(address: string | null) {
-  const [baker, setBaker] = useState<Baker | null>(null)
-  const [rewards, setRewards] = useState<BakerRewards[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
-  const abortControllerRef = useRef<AbortController | null>(null)
-
-  const fetchBakerData = useCallback(
-    async (force = false) => {
-      if (!address) {
-        setBaker(null)
-        setRewards([])
-        setLastUpdated(null)
-        return
-      }
-
-      // Cancel previous request if it exists (prevents race conditions)
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort()
-      }
-
-      abortControllerRef.current = new AbortController()
-
-      try {
-        setLoading(true)
-
-        if (force) {
-          invalidateBakerCache(address)
-        }
-
-        const [bakerDetails, bakerRewards] = await Promise.all([getBakerDetails(address), getBakerRewards(address, 10)])
-
-        // Only update state if request wasn't cancelled
-        if (!abortControllerRef.current?.signal.aborted) {
-          setBaker(bakerDetails)
-          setRewards(bakerRewards)
-          setError(null)
-          setLastUpdated(new Date())
-        }
-      } catch (err) {
-        if (!abortControllerRef.current?.signal.aborted) {
-          setError(err instanceof Error ? err.message : "Failed to fetch baker details")
-          setBaker(null)
-          setRewards([])
-        }
-      } finally {
-        if (!abortControllerRef.current?.signal.aborted) {
-          setLoading(false)
-        }
-      }
+  const { data, loading, error, freshness, lastUpdated, retryAt, refresh } = useTzktQuery({
+    queryKey: ["baker_details", address],
+    queryFn: (signal) =>
+      Promise.all([getBakerDetails(address!, signal), getBakerRewards(address!, 10, signal), getStakingConstants(signal)]),
+    cacheKeys: address
+      ? [CacheKeys.bakerDetails(address), CacheKeys.bakerRewards(address, 10), CacheKeys.currentProtocol()]
+      : [],
+    invalidate: () => {
+      if (address) invalidateBakerCache(address)
     },
-    [address],
-  )
-
-  useEffect(() => {
-    fetchBakerData()
-
-    return () => {
-      // Cleanup: cancel any pending requests
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort()
-      }
-    }
-  }, [fetchBakerData])
-
-  const refresh = useCallback(() => fetchBakerData(true), [fetchBakerData])
+    enabled: address !== null,
+    errorMessage: "Failed to fetch baker details",
+  })
+
+  return {
+    baker: data?.[0] ?? null,
+    rewards: data?.[1] ?? [],
+    stakingConstants: data?.[2] ?? null,
+    loading,
+    error,
+    freshness,
+    lastUpdated,
+    retryAt,
+    refresh,
+  }
+}
 
-  return { baker, rewards, loading, error, lastUpdated, refresh }
+/**
+ * Hook to fetch a baker's rewards over a range of completed cycles
+ * 
+ * Features:
+ * - Records of the completed cycles in the range, oldest first; cycles in which
+ *   the baker had no rights have no record
+ * - Returns the range the records cover, which lags behind while another range loads
+ * - Completed cycles are kept indefinitely: ranges already seen load from cache
+ * - Keeps the current range on screen while another range loads
+ * - Skips fetching without an address or a valid range
+ * 
+ * @param address - Baker's Tezos address (null to skip fetching)
+ * @param fromCycle - First cycle (inclusive)
+ * @param toCycle - Last cycle (inclusive)
+ * @returns Object containing the rewards, the range they cover, loading state, error, freshness, last updated time, next retry, and refresh function
+ */
+export function useBakerRewardsHistory(address: string | null, fromCycle: number, toCycle: number) {
+  const { data, loading, error, freshness, lastUpdated, retryAt, refresh } = useTzktQuery({
+    queryKey: ["baker_rewards_history", address, fromCycle, toCycle],
+    queryFn: async (signal) => ({
+      from: fromCycle,
+      to: toCycle,
+      rewards: (await getBakerRewardsRange(address!, fromCycle, toCycle, signal)).reverse(),
+    }),
+    // Completed cycles never change, so there is nothing to invalidate
+    cacheKeys: address ? [CacheKeys.finalizedRewards(address)] : [],
+    enabled: address !== null && fromCycle >= 0 && fromCycle <= toCycle,
+    keepPreviousData: true,
+    errorMessage: "Failed to fetch rewards history",
+  })
+
+  return {
+    rewards: data?.rewards ?? [],
+    cycles: data ? { from: data.from, to: data.to } : null,
+    loading,
+    error,
+    freshness,
+    lastUpdated,
+    retryAt,
+    refresh,
+  }
 }
 
 /**
  * Hook to fetch and manage aggregated baker statistics
  * 
  * Features:
- * - Fetches total bakers, active bakers, total staking, and average APY
+ * - Fetches total bakers, active bakers, total staking, and average APY (with its source)
  * - Caches data for 1 minute
- * - Auto-refreshes every 15 minutes
+ * - Auto-refreshes every 15 minutes (polling leader tab only)
+ * - Picks up statistics computed by other tabs
  * - Calculates aggregated metrics from multiple sources
  * 
- * @returns Object containing stats, loading state, error, last updated time, and refresh function
+ * @returns Object containing stats, loading state, error, freshness (fallback for typical APY values), last updated time, next retry, and refresh function
  */
 export function useBakersStats() {
-  const [stats, setStats] = useState<{
-    totalBakers: number
-    activeBakers: number
-    totalStaking: number
-    averageApy: number
-    stakingApy: number
-    delegationApy: number
-  } | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
-
-  const fetchStats = useCallback(async (force = false) => {
-    try {
-      setLoading(true)
-
-      if (force) {
-        // Invalidate bakers stats cache and related network cache
-        cacheManager.invalidate("bakers_stats")
-        cacheManager.invalidate("network_stats")
-        cacheManager.invalidate("current_cycle")
-      }
-
-      const bakersStats = await getBakersStats()
-      setStats(bakersStats)
-      setError(null)
-      setLastUpdated(new Date())
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch bakers stats")
-    } finally {
-      setLoading(false)
-    }
-  }, [])
-
-  useEffect(() => {
-    fetchStats()
-
-    // Auto-refresh every 15 minutes
-    const interval = setInterval(() => fetchStats(), 15 * 60 * 1000)
-    return () => clearInterval(interval)
-  }, [fetchStats])
-
-  const refresh = useCallback(() => fetchStats(true), [fetchStats])
-
-  return { stats, loading, error, lastUpdated, refresh }
+  const { data, loading, error, freshness, lastUpdated, retryAt, refresh } = useTzktQuery({
+    queryKey: ["bakers_stats"],
+    queryFn: getBakersStats,
+    cacheKeys: [CacheKeys.bakersStats()],
+    // Bakers stats are computed from the network data
+    invalidate: invalidateNetworkCache,
+    refetchInterval: 15 * 60 * 1000,
+    // Typical APY values when no provider answered
+    isFallback: (stats) => stats.apySource.fallback,
+    errorMessage: "Failed to fetch bakers stats",
+  })
+
+  return { stats: data ?? null, loading, error, freshness, lastUpdated, retryAt, refresh }
 }
 
 /**
@@ -294,6 +246,7 @@ export function useBakersStats() {
 export function useDataPreloader() {
   const [preloaded, setPreloaded] = useState(false)
   const [preloadError, setPreloadError] = useState<string | null>(null)
+  const { network } = useTezosNetwork()
 
   useEffect(() => {
     preloadCriticalData()
@@ -302,9 +255,9 @@ export function useDataPreloader() {
         setPreloadError(null)
       })
       .catch((err) => {
-        setPreloadError(err instanceof Error ? err.message : "Preload failed")
+        setPreloadError(getErrorMessage(err, "Preload failed"))
       })
-  }, [])
+  }, [network.cacheNamespace])
 
   return { preloaded, preloadError }
 }
@@ -314,23 +267,31 @@ export function useDataPreloader() {
  * 
  * Features:
  * - Provides cache size, hit rate, and entry details
+ * - Hits, misses, stale serves, revalidations and load latency per data type
+ * - Upstream response times per endpoint
  * - Updates every second for real-time monitoring
- * - Includes function to clear entire cache
+ * - Includes functions to clear the entire cache, and to invalidate or refetch one key
  * - Useful for debugging and performance monitoring
  * 
- * @returns Object containing cache stats and clearCache function
+ * @returns Object containing cache stats, metrics per data type, latency stats and cache actions
  */
 export function useCacheStats() {
   const [stats, setStats] = useState(cacheManager.getStats())
+  const [metrics, setMetrics] = useState(cacheManager.getMetrics())
+  const [latency, setLatency] = useState(getLatencyStats())
+
+  const update = useCallback(() => {
+    setStats(cacheManager.getStats())
+    setMetrics(cacheManager.getMetrics())
+    setLatency(getLatencyStats())
+  }, [])
 
   useEffect(() => {
     // Update stats every second for real-time monitoring
-    const interval = setInterval(() => {
-      setStats(cacheManager.getStats())
-    }, 1000)
+    const interval = setInterval(update, 1000)
 
     return () => clearInterval(interval)
-  }, [])
+  }, [update])
 
   /**
    * Clear all cache entries
@@ -338,8 +299,34 @@ export function useCacheStats() {
    */
   const clearCache = useCallback(() => {
     cacheManager.clear()
-    setStats(cacheManager.getStats())
-  }, [])
+    update()
+  }, [update])
+
+  /**
+   * Drop one entry from every tier; it is fetched again on next use
+   */
+  const invalidateKey = useCallback(
+    (key: string) => {
+      cacheManager.invalidate(key)
+      update()
+    },
+    [update],
+  )
+
+  /**
+   * Fetch the data behind one entry again
+   * @returns Whether the key could be refetched (keys of the active network only)
+   */
+  const refetchKey = useCallback(
+    async (key: string) => {
+      try {
+        return await refetchCacheKey(key)
+      } finally {
+        update()
+      }
+    },
+    [update],
+  )
 
-  return { ...stats, clearCache }
+  return { ...stats, metrics, latency, clearCache, invalidateKey, refetchKey }
 }
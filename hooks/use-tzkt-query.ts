@@ -0,0 +1,361 @@
+"use client"
+
+/**
+ * Generic Query Hook for Cached TzKT Data
+ *
+ * Shared by the data hooks in use-tzkt-data-cached.ts so they handle loading,
+ * errors, "last updated", scheduled refreshes and forced refreshes the same way.
+ * The hook keeps no copy of its own: fetchers go through the cached API
+ * functions, and writes to the query's cache keys (by another tab, a background
+ * revalidation or a TzKT event) are read back without a loading state.
+ *
+ * Every result carries the freshness of its data:
+ * - fresh: served from a valid cache entry or just fetched
+ * - stale: expired data, while it is being revalidated or because a refresh failed
+ * - fallback: placeholder values (e.g. typical APY when no provider answered)
+ * - error: nothing to show, the request failed
+ *
+ * Scheduled refreshes pause while the tab is hidden or offline. When the tab
+ * comes back (shown, focused or online again), stale data is refetched right
+ * away. Failed refreshes are retried after 30 seconds, doubling the delay each
+ * time up to 8 refetch intervals, until one succeeds. Requests the upstream
+ * refused (not retryable, e.g. an unknown baker) are not retried.
+ *
+ * Dependent queries put the data they need in their key and wait for it with
+ * `enabled`:
+ *
+ *   const { data: cycle } = useTzktQuery({ queryKey: ["cycle"], queryFn: getCurrentCycle })
+ *   const { data: rights } = useTzktQuery({
+ *     queryKey: ["rights", cycle?.index],
+ *     queryFn: (signal) => getRights(cycle!.index, signal),
+ *     enabled: cycle !== undefined,
+ *   })
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { cacheManager, type RefreshFailure } from "@/lib/cache-manager"
+import { getErrorMessage, isAbortError, TzktApiError } from "@/lib/tzkt-fetch"
+import { useTezosNetwork } from "@/hooks/use-tezos-network"
+import { usePollingLeader } from "@/hooks/use-polling-leader"
+import { usePageActive } from "@/hooks/use-page-active"
+
+/**
+ * How current the data of a query is
+ */
+export type DataFreshness = "fresh" | "stale" | "fallback" | "error"
+
+/**
+ * Query configuration
+ */
+export interface TzktQueryOptions<T> {
+  queryKey: ReadonlyArray<string | number | boolean | null | undefined>  // Identifies the query (the active network is added automatically)
+  queryFn: (signal: AbortSignal) => Promise<T>  // Loads the data, normally through the cached API functions
+  cacheKeys?: string[]                          // Cache entries behind the data; the first one dates "last updated"
+  invalidate?: () => void                       // Drops the cached data before a forced refresh
+  refetchInterval?: number                      // Scheduled refresh in ms (polling leader tab only, paused while hidden or offline)
+  enabled?: boolean                             // False to skip fetching (default: true)
+  keepPreviousData?: boolean                    // Keep showing the previous key's data while the new key loads
+  isFallback?: (data: T) => boolean             // Whether the data holds placeholder values
+  errorMessage?: string                         // Message for errors that have no user-facing translation
+}
+
+/**
+ * Query state and actions
+ */
+export interface TzktQueryResult<T> {
+  data: T | undefined
+  loading: boolean
+  error: string | null              // Failed request, or failed refresh of the data shown (stale)
+  freshness: DataFreshness | null   // Null until the first request completes
+  lastUpdated: Date | null          // When the data was fetched (the same in every tab)
+  retryAt: Date | null              // Next retry after a failure
+  isPreviousData: boolean           // Data belongs to a previous query key (keepPreviousData)
+  refresh: () => Promise<void>      // Invalidate the cached data and fetch it again
+}
+
+interface QueryState<T> {
+  data: T | undefined
+  dataKey: string | null            // Query key the data was fetched for
+  error: string | null
+  stale: boolean                    // Data came from expired cache entries
+  lastUpdated: Date | null
+  loading: boolean
+  attempts: number                  // Completed requests, to schedule the next one
+  retryAt: number | null
+}
+
+interface RunOptions {
+  force?: boolean                   // Invalidate the cached data first
+  silent?: boolean                  // Re-read after a cache write, without a loading state
+}
+
+// First retry after a failure; the delay doubles with each failure
+const RETRY_DELAY = 30 * 1000
+
+// Longest retry delay, as a multiple of the refetch interval (or of 1 minute without one)
+const MAX_BACKOFF_FACTOR = 8
+
+/**
+ * Hook running a query against the cached TzKT data
+ *
+ * Features:
+ * - Loading, error, freshness and "last updated" state
+ * - Refetches when the query key or the active network changes, cancelling the previous request
+ * - Scheduled refreshes in the polling leader tab only, paused while the tab is hidden or offline
+ * - Refetches stale data as soon as the tab is shown, focused or back online
+ * - Retries failed requests and refreshes with exponential backoff, exposing the next attempt
+ * - Picks up writes to its cache keys from other tabs, revalidations and live events,
+ *   and failed background revalidations of them
+ * - Disabled and dependent queries, optionally keeping previous data across keys
+ * - Keeps the last data of the same key when a refresh fails
+ *
+ * @param options - Query configuration
+ * @returns Query state and refresh function
+ */
+export function useTzktQuery<T>(options: TzktQueryOptions<T>): TzktQueryResult<T> {
+  const { queryKey, cacheKeys = [], refetchInterval, enabled = true, keepPreviousData = false, isFallback } = options
+  const { network } = useTezosNetwork()
+  const isLeader = usePollingLeader()
+  const isActive = usePageActive()
+
+  const key = JSON.stringify([network.cacheNamespace, ...queryKey])
+  const watchedKeys = cacheKeys.join("\n")
+
+  const [state, setState] = useState<QueryState<T>>(() => initialState(enabled))
+
+  // Latest options, so callers can pass inline functions
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+  const controllerRef = useRef<AbortController | null>(null)
+  const foregroundRef = useRef(false)   // Whether the pending request is a non-silent run
+  const failuresRef = useRef(0)   // Consecutive failed requests or refreshes, for the backoff
+  const lastUpdatedRef = useRef<Date | null>(null)
+
+  const run = useCallback(
+    async ({ force = false, silent = false }: RunOptions = {}) => {
+      const { queryFn, invalidate, cacheKeys = [], errorMessage } = optionsRef.current
+      // Failures reported while this request runs are counted by it
+      const failures = failuresRef.current
+
+      // The pending request reads the cache when it completes. Cancelling it would
+      // cancel its remaining loads too, and the upstream requests they share.
+      if (silent && foregroundRef.current) return
+
+      // Only the latest request updates the state
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+      foregroundRef.current = !silent
+
+      if (!silent) {
+        setState((current) => ({ ...current, loading: true }))
+      }
+      if (force) {
+        invalidate?.()
+      }
+
+      try {
+        const data = await queryFn(controller.signal)
+        if (controller.signal.aborted) return
+
+        // Expired entries are served while they are revalidated, or when their refresh failed
+        const stale = cacheKeys.some((cacheKey) => {
+          const entry = cacheManager.peek(cacheKey)
+          return entry !== null && cacheManager.isStale(entry)
+        })
+        const failure = stale ? refreshFailure(cacheKeys) : null
+
+        failuresRef.current = failure ? failures + 1 : 0
+        lastUpdatedRef.current = cachedAt(cacheKeys[0])
+        setState((current) => ({
+          ...current,
+          data,
+          dataKey: key,
+          error: failure ? getErrorMessage(failure.error, errorMessage ?? "Failed to refresh data") : null,
+          stale,
+          lastUpdated: lastUpdatedRef.current,
+          loading: false,
+          attempts: current.attempts + 1,
+        }))
+      } catch (err) {
+        if (controller.signal.aborted || isAbortError(err)) return
+
+        // Refused requests (e.g. an address that is not a baker) would fail the same way again
+        failuresRef.current = err instanceof TzktApiError && !err.retryable ? 0 : failures + 1
+        setState((current) => ({
+          ...current,
+          error: getErrorMessage(err, errorMessage ?? "Failed to fetch data"),
+          loading: false,
+          attempts: current.attempts + 1,
+        }))
+      } finally {
+        if (controllerRef.current === controller) {
+          foregroundRef.current = false
+        }
+      }
+    },
+    [key],
+  )
+
+  useEffect(() => {
+    lastUpdatedRef.current = null
+    failuresRef.current = 0
+
+    if (!optionsRef.current.keepPreviousData) {
+      setState((current) => (current.dataKey === key ? current : initialState(enabled)))
+    }
+
+    if (!enabled) {
+      setState((current) => ({ ...current, loading: false }))
+      return
+    }
+
+    run()
+    return () => {
+      // Cancel the pending request when the key changes or on unmount
+      controllerRef.current?.abort()
+    }
+  }, [run, enabled, key])
+
+  useEffect(() => {
+    const failures = failuresRef.current
+    const polling = refetchInterval !== undefined && isLeader
+
+    if (!enabled || !isActive || (failures === 0 && !polling)) {
+      setState((current) => (current.retryAt === null ? current : { ...current, retryAt: null }))
+      return
+    }
+
+    // Rescheduled after every completed request, so the delay follows the failures
+    const maxDelay = (refetchInterval ?? 60 * 1000) * MAX_BACKOFF_FACTOR
+    const delay = failures === 0 ? refetchInterval! : Math.min(RETRY_DELAY * 2 ** (failures - 1), maxDelay)
+    const retryAt = failures > 0 ? Date.now() + delay : null
+    setState((current) => ({ ...current, retryAt }))
+
+    const timer = setTimeout(() => run(), delay)
+    return () => clearTimeout(timer)
+  }, [run, enabled, refetchInterval, isLeader, isActive, state.attempts])
+
+  useEffect(() => {
+    if (!enabled || !isActive) return
+
+    const refetchIfStale = () => {
+      if (failuresRef.current > 0 || isStale(optionsRef.current, lastUpdatedRef.current)) run()
+    }
+
+    // Shown or back online (this effect re-runs), or focused again
+    refetchIfStale()
+    window.addEventListener("focus", refetchIfStale)
+    return () => window.removeEventListener("focus", refetchIfStale)
+  }, [run, enabled, isActive])
+
+  useEffect(() => {
+    if (!enabled || !watchedKeys) return
+
+    // Served from cache, unless another of the keys has expired meanwhile
+    const keys = new Set(watchedKeys.split("\n"))
+    const unsubscribeWrites = cacheManager.subscribe((changed) => {
+      if (keys.has(changed)) run({ silent: true })
+    })
+
+    // A background revalidation failed: the data shown stays stale
+    const unsubscribeFailures = cacheManager.subscribeToFailures((failed) => {
+      const failure = keys.has(failed) ? cacheManager.getFailure(failed) : null
+      if (!failure) return
+
+      // Starts the retries, unless they are already running
+      const starting = failuresRef.current === 0
+      if (starting) failuresRef.current = 1
+
+      const { errorMessage } = optionsRef.current
+      setState((current) => ({
+        ...current,
+        error: getErrorMessage(failure.error, errorMessage ?? "Failed to refresh data"),
+        stale: true,
+        attempts: starting ? current.attempts + 1 : current.attempts,
+      }))
+    })
+
+    return () => {
+      unsubscribeWrites()
+      unsubscribeFailures()
+    }
+  }, [run, enabled, watchedKeys])
+
+  const refresh = useCallback(() => run({ force: true }), [run])
+
+  const isCurrent = state.dataKey === key
+  const data = isCurrent || keepPreviousData ? state.data : undefined
+
+  let freshness: DataFreshness | null = null
+  if (data === undefined) {
+    freshness = state.error ? "error" : null
+  } else if (isFallback?.(data)) {
+    freshness = "fallback"
+  } else {
+    freshness = state.stale || state.error ? "stale" : "fresh"
+  }
+
+  return {
+    data,
+    loading: state.loading,
+    error: state.error,
+    freshness,
+    lastUpdated: isCurrent || keepPreviousData ? state.lastUpdated : null,
+    retryAt: state.retryAt !== null ? new Date(state.retryAt) : null,
+    isPreviousData: state.data !== undefined && !isCurrent && keepPreviousData,
+    refresh,
+  }
+}
+
+// ============ Private Helpers ============
+
+function initialState<T>(enabled: boolean): QueryState<T> {
+  return {
+    data: undefined,
+    dataKey: null,
+    error: null,
+    stale: false,
+    lastUpdated: null,
+    loading: enabled,
+    attempts: 0,
+    retryAt: null,
+  }
+}
+
+/**
+ * Whether the query's data should be refetched
+ * Stale when one of its cache entries is missing or expired; queries without
+ * cache keys go by their refetch interval. Failed queries are retried separately.
+ */
+function isStale(options: Pick<TzktQueryOptions<unknown>, "cacheKeys" | "refetchInterval">, lastUpdated: Date | null): boolean {
+  if (!lastUpdated) return false   // Never loaded: the initial fetch is underway
+
+  if (options.cacheKeys?.length) {
+    return options.cacheKeys.some((key) => {
+      const entry = cacheManager.peek(key)
+      return !entry || cacheManager.isStale(entry)
+    })
+  }
+
+  return options.refetchInterval !== undefined && Date.now() - lastUpdated.getTime() >= options.refetchInterval
+}
+
+/**
+ * First failed refresh among the query's cache entries
+ */
+function refreshFailure(cacheKeys: string[]): RefreshFailure | null {
+  for (const key of cacheKeys) {
+    const failure = cacheManager.getFailure(key)
+    if (failure) return failure
+  }
+  return null
+}
+
+/**
+ * When a cache entry was fetched, so every tab shows the same "last updated" time
+ */
+function cachedAt(key?: string): Date {
+  const entry = key ? cacheManager.peek(key) : null
+  return entry ? new Date(entry.timestamp) : new Date()
+}
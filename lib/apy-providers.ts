@@ -0,0 +1,161 @@
+/**
+ * Pluggable APY Providers
+ *
+ * The portal shows a network-wide staking and delegation APY. Providers
+ * estimate it from different sources and are tried in order:
+ * - on-chain (default): issuance parameters, total baking power and protocol
+ *   constants from TzKT
+ * - tez.cool: community-maintained APY from the tez.cool API
+ *
+ * When every provider fails, typical values are returned and flagged as a
+ * fallback so the UI never presents them as live data.
+ *
+ * Register a different list with setApyProviders().
+ */
+
+import { getTzktApiMode } from "./tezos-network"
+import { fetchJsonWithRetry, isAbortError } from "./tzkt-fetch"
+import { validateResponse, TezCoolDataSchema } from "./tzkt-schemas"
+import { calculateNetworkApy, type ApySource, type Cycle, type StakingConstants } from "./tzkt-api"
+
+/**
+ * Data available to providers
+ */
+export interface ApyContext {
+  cycle: Cycle                  // Current cycle (issuance parameters and total baking power)
+  constants: StakingConstants   // Constants of the current protocol (flagged when mainnet values are used)
+  signal?: AbortSignal          // Cancels provider requests
+}
+
+/**
+ * APY values in percent
+ */
+export interface ApyValues {
+  stakingApy: number        // Yield of staked funds
+  delegationApy: number     // Yield of delegated funds
+}
+
+/**
+ * A source of network-wide APY estimates
+ */
+export interface ApyProvider {
+  id: string                // Unique identifier
+  label: string             // Name shown in the UI
+  url?: string              // Link shown next to the values
+  /**
+   * Estimate the current APY
+   * @throws When the source is unavailable or returns incomplete data
+   */
+  estimate(context: ApyContext): Promise<ApyValues>
+}
+
+/**
+ * Result of estimateApy: the values and where they came from
+ */
+export interface ApyEstimate extends ApyValues {
+  source: ApySource
+}
+
+/**
+ * Typical yields shown when no provider is available
+ */
+const FALLBACK_APY: ApyValues = {
+  stakingApy: 9.73,
+  delegationApy: 3.24,
+}
+
+// ============ Providers ============
+
+/**
+ * Default provider: APY derived from on-chain data (see calculateNetworkApy)
+ */
+export const onChainApyProvider: ApyProvider = {
+  id: "on-chain",
+  label: "TzKT on-chain data",
+  url: "https://tzkt.io",
+  async estimate({ cycle, constants }) {
+    // Mainnet values may not hold on this network: leave the estimate to the next provider
+    if (constants.fallback) {
+      throw new Error("Protocol constants are unavailable")
+    }
+
+    const apy = calculateNetworkApy(cycle, constants)
+    if (!apy) {
+      throw new Error(`Cycle ${cycle.index} has no issuance data`)
+    }
+    return apy
+  },
+}
+
+// NEXT_PUBLIC_TEZ_COOL_URL points tez.cool at another host (e.g. the mock TzKT server)
+const TEZ_COOL_URL = `${process.env.NEXT_PUBLIC_TEZ_COOL_URL || "https://tez.cool"}/api/v1/getData`
+const TEZ_COOL_PROXY_URL = "/api/tezcool/v1/getData"
+
+/**
+ * tez.cool provider: community-trusted APY from the tez.cool API
+ * Goes through the portal's proxy route in proxy mode
+ */
+export const tezCoolApyProvider: ApyProvider = {
+  id: "tez.cool",
+  label: "tez.cool",
+  url: "https://tez.cool",
+  async estimate({ signal }) {
+    const url = getTzktApiMode() === "proxy" ? TEZ_COOL_PROXY_URL : TEZ_COOL_URL
+    const response = await fetchJsonWithRetry<unknown>(url, url, { retries: 1 }, signal)
+    const { stakingApy, delegationApy } = validateResponse<{
+      homeData: { stakingData: { stakingApy?: number; delegationApy?: number } }
+    }>(TezCoolDataSchema, response, url).homeData.stakingData
+
+    if (!stakingApy || !delegationApy) {
+      throw new Error("tez.cool returned no APY values")
+    }
+    return { stakingApy, delegationApy }
+  },
+}
+
+// ============ Registry ============
+
+let providers: ApyProvider[] = [onChainApyProvider, tezCoolApyProvider]
+
+/**
+ * Replace the providers used by estimateApy, in order of preference
+ * @param next - Providers to try, first to last
+ */
+export function setApyProviders(next: ApyProvider[]): void {
+  providers = [...next]
+}
+
+/**
+ * Providers currently used by estimateApy, in order of preference
+ */
+export function getApyProviders(): readonly ApyProvider[] {
+  return providers
+}
+
+/**
+ * Estimate the network APY with the first provider that succeeds
+ * @param context - Current cycle, protocol constants and optional abort signal
+ * @returns APY values with their source; typical values flagged as fallback when all providers fail
+ * @throws The abort reason when the signal is aborted
+ */
+export async function estimateApy(context: ApyContext): Promise<ApyEstimate> {
+  for (const provider of providers) {
+    try {
+      const values = await provider.estimate(context)
+      return {
+        ...values,
+        source: { id: provider.id, label: provider.label, url: provider.url, fallback: false },
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+      console.warn(`APY provider "${provider.id}" failed:`, error)
+    }
+  }
+
+  return {
+    ...FALLBACK_APY,
+    source: { id: "fallback", label: "Typical values", fallback: true },
+  }
+}
@@ -4,10 +4,25 @@
  * This cache manager implements several strategies:
  * - In-memory caching with TTL (Time To Live)
  * - Optional localStorage persistence for data durability across sessions
+ * - Pluggable asynchronous storage (IndexedDB by default) for large entries
  * - Stale-while-revalidate pattern for better UX
- * - Automatic cache eviction based on size and age
+ * - Size-aware LRU eviction with per-strategy priorities
+ * - In-flight request coalescing so concurrent misses share one fetch
+ * - Change notifications so pushed updates (e.g. new blocks) reach the UI
+ * - A change feed for sharing writes with other tabs (see cache-sync.ts)
+ * - Versioned entries: persisted data from older builds is migrated or discarded (see cache-versions.ts)
+ * - Chain-aware expiry: entries can expire at a known time or once the chain passes a level
+ * - Tags (network, data type, baker, cycle) for invalidating related entries in every tier
+ * - Metrics per key family: hits, misses, stale serves, revalidations, load latency (see cache-metrics.ts)
+ * - Refresh failures, so the UI can tell stale data from fresh data
  */
 
+import { getActiveNetwork } from "./tezos-network"
+import { abortReason } from "./tzkt-fetch"
+import { createLargeEntryStorage, isQuotaError, type CacheStorageAdapter } from "./cache-storage"
+import { BUILD_ID, cacheFamilyOf, entryVersion, upgradeEntry } from "./cache-versions"
+import { CacheMetrics, type FamilyMetrics } from "./cache-metrics"
+
 /**
  * Represents a single cache entry with metadata
  */
@@ -16,6 +31,33 @@ export interface CacheEntry<T> {
   timestamp: number    // When the data was cached (milliseconds)
   ttl: number         // Time to live in milliseconds
   key: string         // Cache key identifier
+  size?: number       // Estimated size in bytes
+  priority?: number   // Eviction priority (see CachePriority)
+  version?: number    // Shape version of the data's key family (see cache-versions.ts)
+  build?: string      // Build that wrote the entry
+  expiresAt?: number  // Absolute expiry time (milliseconds), when earlier than timestamp + ttl
+  validUntilLevel?: number // Last chain level the data is valid for (see advanceLevel)
+  tags?: string[]     // Tags for invalidateTag (see CacheTags)
+}
+
+/**
+ * Eviction priorities
+ * When a tier is over budget, entries with the lowest priority are evicted
+ * first, least recently used first within the same priority
+ */
+export const CachePriority = {
+  LOW: 0,      // Cheap to refetch (aggregates, single records)
+  NORMAL: 1,   // Default
+  HIGH: 2,     // Expensive to rebuild (full baker set, reward history)
+} as const
+
+/**
+ * A pending request shared by every caller of the same cache key
+ */
+interface InFlightRequest<T> {
+  promise: Promise<T>          // Result shared with all callers
+  controller: AbortController  // Cancels the underlying request
+  waiters: number              // Callers still interested in the result
 }
 
 /**
@@ -25,7 +67,86 @@ export interface CacheOptions {
   ttl?: number                      // Time to live in milliseconds (default: 5 minutes)
   maxSize?: number                  // Maximum number of cache entries
   persistToLocalStorage?: boolean   // Whether to persist cache in localStorage
+  persistToIndexedDB?: boolean      // Whether to persist in the large-entry storage (IndexedDB or its fallback)
   staleWhileRevalidate?: boolean   // Return stale data while revalidating in background
+  priority?: number                 // Eviction priority (default: CachePriority.NORMAL)
+  expiresAt?: number                // Absolute expiry time (e.g. the end of the current cycle)
+  validUntilLevel?: number          // Expire once the chain passes this level (e.g. the current head)
+  tags?: string[]                   // Extra tags; network and type tags are added from the key
+}
+
+/**
+ * A write made through this instance's public API
+ * Shared with other tabs by CacheSync and replayed with applyRemoteChange
+ */
+export type CacheChange =
+  | { type: "set"; entry: CacheEntry<unknown>; options: CacheOptions }  // set() or update()
+  | { type: "invalidate"; key: string }
+  | { type: "invalidateTag"; tag: string; unless?: string }
+  | { type: "clear" }
+
+/**
+ * Byte budgets of the cache tiers
+ */
+export interface CacheBudgets {
+  memory?: number          // In-memory entries (default: 16 MB)
+  localStorage?: number    // localStorage entries (default: 4 MB, below the ~5 MB browser limit)
+  storage?: number         // Storage adapter entries (default: 64 MB)
+}
+
+/**
+ * Configuration of a CacheManager instance
+ */
+export interface CacheManagerOptions {
+  maxSize?: number                  // Maximum number of in-memory entries (default: 100)
+  budgets?: CacheBudgets            // Byte budgets per tier
+  storage?: CacheStorageAdapter     // Backend for persistToIndexedDB entries (none: kept in memory only)
+}
+
+type PersistentTier = "localStorage" | "storage"
+
+/**
+ * Details of an in-memory entry, as reported by getStats()
+ */
+export interface CacheEntryStats {
+  key: string                           // Cache key
+  age: number                           // Milliseconds since the data was cached
+  ttl: number                           // Time to live in milliseconds
+  expiresAt: number | null              // Absolute expiry time, when set
+  expired: boolean                      // Past its TTL, expiry time or chain level
+  size: number                          // Estimated size in bytes
+  priority: number                      // Eviction priority
+  tags: string[]                        // Tags (see CacheTags)
+  tiers: Array<"memory" | PersistentTier> // Tiers holding a copy of the entry
+}
+
+/**
+ * Failed refresh of an entry whose previous data is still being served
+ */
+export interface RefreshFailure {
+  error: unknown                        // Error of the failed refresh
+  failedAt: number                      // When the refresh failed
+}
+
+/**
+ * Size and priority of a persisted entry
+ */
+interface TierEntry {
+  size: number       // Bytes used in the tier
+  priority: number   // Eviction priority
+  tags?: string[]    // Entry tags; unknown for localStorage entries indexed at startup
+}
+
+// TTL of entries that never expire (finite, so it survives JSON serialisation)
+const FOREVER = Number.MAX_SAFE_INTEGER
+
+// localStorage item holding the build that last checked the persisted entries
+const BUILD_MARKER = "tzkt_build_id"
+
+const DEFAULT_BUDGETS: Required<CacheBudgets> = {
+  memory: 16 * 1024 * 1024,
+  localStorage: 4 * 1024 * 1024,
+  storage: 64 * 1024 * 1024,
 }
 
 /**
@@ -34,14 +155,58 @@ export interface CacheOptions {
  * Features:
  * - In-memory Map-based storage for fast access
  * - Optional localStorage persistence
- * - Automatic cache eviction when size limit is reached
- * - Hit/miss tracking for performance monitoring
+ * - Large entries persisted through a storage adapter and loaded back
+ *   asynchronously at startup (await `ready` before reading them)
+ * - LRU eviction by priority within a byte budget per tier (memory,
+ *   localStorage, storage adapter) and an entry limit for memory
+ * - Hit/miss tracking for performance monitoring, overall and per key family
+ * - Shared in-flight promise registry keyed by cache key
+ * - Listeners notified whenever an entry is written
+ * - Change feed of local writes, and replay of writes made in other tabs
+ *
+ * Each tier is evicted on its own: an entry dropped from memory stays
+ * persisted and is read back on the next access.
+ *
+ * The browser uses the `cacheManager` singleton; server code (the API
+ * proxy routes) creates its own instance.
  */
-class CacheManager {
+export class CacheManager {
+  // Map iteration order doubles as LRU order: entries move to the end when accessed
   private cache = new Map<string, CacheEntry<any>>()
+  private inFlight = new Map<string, InFlightRequest<any>>()
+  private listeners = new Set<(key: string) => void>()
+  private changeListeners = new Set<(change: CacheChange) => void>()
+  private failures = new Map<string, RefreshFailure>()
+  private failureListeners = new Set<(key: string) => void>()
   private readonly defaultTTL = 5 * 60 * 1000 // 5 minutes default TTL
-  private readonly maxSize = 100                // Maximum cache entries
+  private readonly maxSize: number              // Maximum in-memory entries
+  private readonly budgets: Required<CacheBudgets>
   private readonly localStoragePrefix = "tzkt_cache_"
+  private readonly storage: CacheStorageAdapter | null
+
+  // Bytes used per tier, and the persisted entries in LRU order
+  private memoryBytes = 0
+  private persisted: Record<PersistentTier, Map<string, TierEntry>> = {
+    localStorage: new Map(),
+    storage: new Map(),
+  }
+  private persistedBytes: Record<PersistentTier, number> = { localStorage: 0, storage: 0 }
+
+  /**
+   * Resolves once entries from the storage adapter are loaded into memory
+   * Never rejects: when the storage cannot be read, the cache starts empty
+   */
+  readonly ready: Promise<void>
+
+  /**
+   * @param options - Instance configuration
+   */
+  constructor(options: CacheManagerOptions = {}) {
+    this.maxSize = options.maxSize ?? 100
+    this.budgets = { ...DEFAULT_BUDGETS, ...options.budgets }
+    this.storage = options.storage ?? null
+    this.ready = this.hydrate()
+  }
 
   /**
    * Retrieve data from cache
@@ -57,7 +222,7 @@ class CacheManager {
       if (options.persistToLocalStorage) {
         const stored = this.getFromLocalStorage<T>(key)
         if (stored && !this.isExpired(stored)) {
-          this.cache.set(key, stored)
+          this.storeInMemory(stored)
           return stored.data
         }
       }
@@ -68,16 +233,82 @@ class CacheManager {
     if (this.isExpired(entry)) {
       if (options.staleWhileRevalidate) {
         // Return stale data but mark for background revalidation
+        this.touch(key)
         return entry.data
       }
-      this.cache.delete(key)
-      this.removeFromLocalStorage(key)
+      // Expired entries are kept (until evicted or overwritten) so they
+      // can still be served through peek() while the upstream is failing
       return null
     }
 
+    this.touch(key)
     return entry.data
   }
 
+  /**
+   * Retrieve a cache entry with its metadata, even if it has expired
+   * Used to check staleness and to serve stale data when the upstream fails
+   * @param key - Unique cache key
+   * @param options - Cache configuration options
+   * @returns Cache entry or null if nothing was ever cached for this key
+   */
+  peek<T>(key: string, options: CacheOptions = {}): CacheEntry<T> | null {
+    const entry = this.cache.get(key)
+    if (entry) {
+      return entry
+    }
+
+    if (options.persistToLocalStorage) {
+      const stored = this.getFromLocalStorage<T>(key)
+      if (stored) {
+        this.storeInMemory(stored)
+        return stored
+      }
+    }
+    return null
+  }
+
+  /**
+   * Bring an entry persisted through the storage adapter back into memory
+   * Waits for startup hydration; a no-op when the entry is already in memory
+   * or was never persisted there. Call before get() for persistToIndexedDB data.
+   * @param key - Unique cache key
+   * @param options - Cache configuration options
+   */
+  async restore(key: string, options: CacheOptions = {}): Promise<void> {
+    await this.ready
+
+    if (!options.persistToIndexedDB || !this.storage || this.cache.has(key) || !this.persisted.storage.has(key)) {
+      return
+    }
+
+    try {
+      const stored = await this.storage.get(key)
+      // A write that happened while reading is newer than the stored copy
+      if (!stored || this.cache.has(key)) return
+
+      const upgraded = upgradeEntry(stored)
+      if (!upgraded) {
+        this.removeFromStorage(key)
+        return
+      }
+      if (upgraded !== stored) {
+        this.setToStorage(upgraded)
+      }
+      this.storeInMemory(upgraded)
+    } catch (error) {
+      console.warn(`Failed to restore ${key} from cache storage "${this.storage.name}":`, error)
+    }
+  }
+
+  /**
+   * Check whether a cache entry is past its TTL
+   * @param entry - Cache entry to check
+   */
+  isStale(entry: CacheEntry<unknown>): boolean {
+    return this.isExpired(entry)
+  }
+
   /**
    * Store data in cache
    * @param key - Unique cache key
@@ -91,19 +322,187 @@ class CacheManager {
       timestamp: Date.now(),
       ttl,
       key,
+      size: estimateSize(data),
+      priority: options.priority ?? CachePriority.NORMAL,
+      expiresAt: options.expiresAt,
+      validUntilLevel: options.validUntilLevel,
+      tags: Array.from(new Set([...keyTags(key), ...(options.tags ?? [])])),
+      ...entryVersion(key),
     }
 
-    // Handle maximum cache size by evicting oldest entry if needed
-    if (this.cache.size >= this.maxSize) {
-      this.evictOldest()
-    }
-
-    this.cache.set(key, entry)
+    // Evicts other entries if the memory tier is full
+    this.storeInMemory(entry)
 
     // Persist to localStorage if requested
     if (options.persistToLocalStorage) {
       this.setToLocalStorage(key, entry)
     }
+    if (options.persistToIndexedDB) {
+      this.setToStorage(entry)
+    }
+
+    this.failures.delete(key)
+    this.notify(key)
+    this.emit({ type: "set", entry, options })
+  }
+
+  /**
+   * Patch cached data in place, keeping the entry's timestamp and TTL
+   * Used for pushed partial updates (e.g. a new head level) that must not
+   * make the rest of the entry look fresher than it is
+   * @param key - Cache key to update
+   * @param updater - Receives the current data, returns the new data
+   * @param options - Cache configuration options
+   * @returns Whether an entry existed and was updated
+   */
+  update<T>(key: string, updater: (data: T) => T, options: CacheOptions = {}): boolean {
+    const entry = this.peek<T>(key, options)
+    if (!entry) {
+      return false
+    }
+
+    const data = updater(entry.data)
+    const updated: CacheEntry<T> = { ...entry, data, size: estimateSize(data) }
+    this.storeInMemory(updated)
+
+    if (options.persistToLocalStorage) {
+      this.setToLocalStorage(key, updated)
+    }
+    if (options.persistToIndexedDB) {
+      this.setToStorage(updated)
+    }
+
+    this.notify(key)
+    this.emit({ type: "set", entry: updated, options })
+    return true
+  }
+
+  /**
+   * Subscribe to cache writes
+   * @param listener - Called with the key of every entry that was set or updated
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (key: string) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Record that refreshing an entry failed while its previous data is still served
+   * (failed background revalidation, or stale data served during an outage).
+   * Kept in this tab's memory until the key is written or removed.
+   * @param key - Cache key of the entry
+   * @param error - Error of the failed refresh
+   */
+  recordFailure(key: string, error: unknown): void {
+    this.failures.set(key, { error, failedAt: Date.now() })
+    this.failureListeners.forEach((listener) => listener(key))
+  }
+
+  /**
+   * Get the last failed refresh of an entry
+   * @param key - Cache key of the entry
+   * @returns The failure, or null when the entry was not refreshed unsuccessfully since its last write
+   */
+  getFailure(key: string): RefreshFailure | null {
+    return this.failures.get(key) ?? null
+  }
+
+  /**
+   * Subscribe to failed refreshes
+   * @param listener - Called with the key of every entry whose refresh failed
+   * @returns Unsubscribe function
+   */
+  subscribeToFailures(listener: (key: string) => void): () => void {
+    this.failureListeners.add(listener)
+    return () => {
+      this.failureListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Subscribe to writes made through this instance (not to replayed remote changes)
+   * @param listener - Called with every set, update, invalidation and clear
+   * @returns Unsubscribe function
+   */
+  subscribeToChanges(listener: (change: CacheChange) => void): () => void {
+    this.changeListeners.add(listener)
+    return () => {
+      this.changeListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Replay a change made by another instance sharing the same persistent storage
+   * (another tab). Only memory and the tier accounting are updated: the other
+   * tab already wrote to localStorage and the storage adapter.
+   * Key listeners are notified of replayed writes; change listeners are not.
+   * @param change - Change received from the other instance
+   */
+  applyRemoteChange(change: CacheChange): void {
+    switch (change.type) {
+      case "set": {
+        // The other tab may run another build (e.g. not reloaded after a deploy)
+        const entry = upgradeEntry(change.entry)
+        if (!entry) return
+
+        const { options } = change
+        const current = this.cache.get(entry.key)
+        // Out-of-order delivery must not replace newer data
+        if (current && current.timestamp > entry.timestamp) return
+
+        this.storeInMemory(entry)
+        const size = entry.size ?? estimateSize(entry.data)
+        const priority = entry.priority ?? CachePriority.NORMAL
+        if (options.persistToLocalStorage) this.track("localStorage", entry.key, size, priority, entry.tags)
+        if (options.persistToIndexedDB) this.track("storage", entry.key, size, priority, entry.tags)
+
+        this.failures.delete(entry.key)
+        this.notify(entry.key)
+        return
+      }
+      case "invalidate":
+        this.removeFromMemory(change.key)
+        this.forget("localStorage", change.key)
+        this.forget("storage", change.key)
+        return
+      case "invalidateTag":
+        for (const key of this.taggedKeys(change.tag, change.unless)) {
+          this.removeFromMemory(key)
+          this.forget("localStorage", key)
+          this.forget("storage", key)
+        }
+        return
+      case "clear":
+        this.cache.clear()
+        this.failures.clear()
+        this.memoryBytes = 0
+        for (const tier of ["localStorage", "storage"] as const) {
+          this.persisted[tier].clear()
+          this.persistedBytes[tier] = 0
+        }
+        return
+    }
+  }
+
+  /**
+   * The chain reached a new level: entries valid only up to an earlier level expire
+   * Expired entries stay available through peek(), like entries past their TTL
+   * @param level - New head level
+   * @param keyPrefix - Only entries whose key starts with it (e.g. the network namespace)
+   */
+  advanceLevel(level: number, keyPrefix = ""): void {
+    const now = Date.now()
+
+    for (const [key, entry] of this.cache) {
+      if (entry.validUntilLevel === undefined || entry.validUntilLevel >= level || !key.startsWith(keyPrefix)) continue
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) continue
+
+      // Replacing the value of an existing key keeps its LRU position
+      this.cache.set(key, { ...entry, expiresAt: now })
+    }
   }
 
   /**
@@ -111,28 +510,30 @@ class CacheManager {
    * @param key - Cache key to invalidate
    */
   invalidate(key: string): void {
-    this.cache.delete(key)
+    this.removeFromMemory(key)
     this.removeFromLocalStorage(key)
+    this.removeFromStorage(key)
+    this.emit({ type: "invalidate", key })
   }
 
   /**
-   * Invalidate all cache entries matching a pattern
-   * @param pattern - Regular expression pattern to match keys
+   * Invalidate every entry carrying a tag, in memory and in persistent storage
+   * Other tabs drop their in-memory copies as well
+   * @param tag - Tag to match (see CacheTags)
+   * @param unless - Keep entries that also carry this tag (e.g. CacheTags.finalized())
+   * @returns Number of invalidated entries
    */
-  invalidatePattern(pattern: string): void {
-    const regex = new RegExp(pattern)
-    const keysToDelete: string[] = []
+  invalidateTag(tag: string, unless?: string): number {
+    const keys = this.taggedKeys(tag, unless)
 
-    for (const key of this.cache.keys()) {
-      if (regex.test(key)) {
-        keysToDelete.push(key)
-      }
+    for (const key of keys) {
+      this.removeFromMemory(key)
+      this.removeFromLocalStorage(key)
+      this.removeFromStorage(key)
     }
 
-    keysToDelete.forEach((key) => {
-      this.cache.delete(key)
-      this.removeFromLocalStorage(key)
-    })
+    this.emit({ type: "invalidateTag", tag, unless })
+    return keys.length
   }
 
   /**
@@ -140,27 +541,51 @@ class CacheManager {
    */
   clear(): void {
     this.cache.clear()
+    this.failures.clear()
+    this.memoryBytes = 0
     this.clearLocalStorage()
+    this.persisted.storage.clear()
+    this.persistedBytes.storage = 0
+    this.storage?.clear().catch((error) => {
+      console.warn(`Failed to clear cache storage "${this.storage?.name}":`, error)
+    })
+    this.emit({ type: "clear" })
   }
 
   /**
    * Get cache statistics for monitoring
-   * @returns Object containing cache size, hit rate, and entry details
+   * Entries persisted but not loaded into memory are only counted in `bytes`
+   * @returns Object containing cache size, hit rate, bytes per tier, and entry details
    */
   getStats(): {
     size: number
     hitRate: number
-    entries: Array<{ key: string; age: number; ttl: number }>
+    storage: string | null
+    bytes: Record<"memory" | PersistentTier, number>
+    budgets: Required<CacheBudgets>
+    entries: CacheEntryStats[]
   } {
-    const entries = Array.from(this.cache.entries()).map(([key, entry]) => ({
+    const entries = Array.from(this.cache.entries()).map(([key, entry]): CacheEntryStats => ({
       key,
       age: Date.now() - entry.timestamp,
       ttl: entry.ttl,
+      expiresAt: entry.expiresAt ?? null,
+      expired: this.isExpired(entry),
+      size: entry.size ?? 0,
+      priority: entry.priority ?? CachePriority.NORMAL,
+      tags: entry.tags ?? [],
+      tiers: [
+        "memory",
+        ...(["localStorage", "storage"] as const).filter((tier) => this.persisted[tier].has(key)),
+      ],
     }))
 
     return {
       size: this.cache.size,
       hitRate: this.calculateHitRate(),
+      storage: this.storage?.name ?? null,
+      bytes: { memory: this.memoryBytes, ...this.persistedBytes },
+      budgets: { ...this.budgets },
       entries,
     }
   }
@@ -170,17 +595,97 @@ class CacheManager {
    * @param key - Cache key
    * @param fetcher - Async function to fetch data if not in cache
    * @param options - Cache configuration options
+   * @param signal - Optional signal to cancel this caller's request
    * @returns The cached or freshly fetched data
    */
-  async preload<T>(key: string, fetcher: () => Promise<T>, options: CacheOptions = {}): Promise<T> {
+  async preload<T>(
+    key: string,
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    options: CacheOptions = {},
+    signal?: AbortSignal,
+  ): Promise<T> {
+    await this.restore(key, options)
+
     const cached = this.get<T>(key, options)
     if (cached) {
       return cached
     }
 
-    const data = await fetcher()
-    this.set(key, data, options)
-    return data
+    return this.dedupe(
+      key,
+      async (sharedSignal) => {
+        const data = await fetcher(sharedSignal)
+        if (!sharedSignal.aborted) {
+          this.set(key, data, options)
+        }
+        return data
+      },
+      signal,
+    )
+  }
+
+  /**
+   * Share a single pending request between concurrent callers
+   * The first caller for a key runs the fetcher; later callers receive
+   * the same result until it settles, so the network request and the
+   * cache write happen only once.
+   *
+   * Cancellation: a caller whose signal aborts stops waiting right away,
+   * but the shared request keeps running for the others. It is aborted
+   * only once every caller has aborted. Callers without a signal keep it
+   * alive until it settles.
+   * @param key - Cache key identifying the request
+   * @param fetcher - Async function performing the request (and cache write), given the shared signal
+   * @param signal - Optional signal cancelling this caller's interest
+   * @returns The pending or newly started promise
+   */
+  dedupe<T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal))
+    }
+
+    let request: InFlightRequest<T> | undefined = this.inFlight.get(key)
+    if (!request) {
+      const controller = new AbortController()
+      const promise: Promise<T> = fetcher(controller.signal).finally(() => {
+        if (this.inFlight.get(key)?.promise === promise) {
+          this.inFlight.delete(key)
+        }
+      })
+      request = { promise, controller, waiters: 0 }
+      this.inFlight.set(key, request)
+    }
+
+    request.waiters++
+    if (!signal) {
+      return request.promise
+    }
+
+    const shared = request
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(abortReason(signal))
+        shared.waiters--
+        if (shared.waiters === 0) {
+          // Nobody needs the result anymore: cancel it and let the next caller start afresh
+          shared.controller.abort()
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key)
+          }
+        }
+      }
+
+      signal.addEventListener("abort", onAbort, { once: true })
+      shared.promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+    })
+  }
+
+  /**
+   * Check whether a request for a key is currently in flight
+   * @param key - Cache key
+   */
+  isInFlight(key: string): boolean {
+    return this.inFlight.has(key)
   }
 
   // ============ Private Methods ============
@@ -189,47 +694,342 @@ class CacheManager {
    * Check if a cache entry has expired
    */
   private isExpired(entry: CacheEntry<any>): boolean {
-    return Date.now() - entry.timestamp > entry.ttl
+    const now = Date.now()
+    return now - entry.timestamp > entry.ttl || (entry.expiresAt !== undefined && now >= entry.expiresAt)
+  }
+
+  private notify(key: string): void {
+    this.listeners.forEach((listener) => listener(key))
+  }
+
+  private emit(change: CacheChange): void {
+    this.changeListeners.forEach((listener) => listener(change))
   }
 
   /**
-   * Evict the oldest cache entry to make room for new entries
+   * Keys of the entries carrying a tag, in any tier
+   * An entry in memory is checked there; persisted copies have the same tags
    */
-  private evictOldest(): void {
-    let oldestKey = ""
-    let oldestTime = Date.now()
+  private taggedKeys(tag: string, unless?: string): string[] {
+    const matches = (tags: string[]) => tags.includes(tag) && !(unless && tags.includes(unless))
+    const keys = new Set<string>()
 
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.timestamp < oldestTime) {
-        oldestTime = entry.timestamp
-        oldestKey = key
+    for (const [key, entry] of this.cache) {
+      if (matches(entry.tags ?? [])) keys.add(key)
+    }
+    for (const tier of ["localStorage", "storage"] as const) {
+      for (const [key, tierEntry] of this.persisted[tier]) {
+        if (this.cache.has(key) || keys.has(key)) continue
+        if (matches(tierEntry.tags ?? this.readLocalStorageTags(key, tierEntry))) keys.add(key)
       }
     }
 
-    if (oldestKey) {
-      this.cache.delete(oldestKey)
-      this.removeFromLocalStorage(oldestKey)
+    return Array.from(keys)
+  }
+
+  // ============ Memory Tier ============
+
+  /**
+   * Insert or replace an entry in memory as the most recently used one,
+   * evicting others while the entry limit or the byte budget is exceeded
+   */
+  private storeInMemory(entry: CacheEntry<any>): void {
+    const size = entry.size ?? estimateSize(entry.data)
+    const sized = entry.size === undefined ? { ...entry, size } : entry
+
+    this.removeFromMemory(sized.key)
+    while (this.cache.size >= this.maxSize || (this.cache.size > 0 && this.memoryBytes + size > this.budgets.memory)) {
+      const victim = findEvictionVictim(this.cache)
+      if (!victim) break
+      this.removeFromMemory(victim)
+    }
+
+    this.cache.set(sized.key, sized)
+    this.memoryBytes += size
+  }
+
+  private removeFromMemory(key: string): void {
+    this.failures.delete(key)
+    const entry = this.cache.get(key)
+    if (entry) {
+      this.cache.delete(key)
+      this.memoryBytes -= entry.size ?? 0
+    }
+  }
+
+  /**
+   * Mark an entry as the most recently used in every tier holding it
+   */
+  private touch(key: string): void {
+    const entry = this.cache.get(key)
+    if (entry) {
+      this.cache.delete(key)
+      this.cache.set(key, entry)
+    }
+
+    for (const index of Object.values(this.persisted)) {
+      const tierEntry = index.get(key)
+      if (tierEntry) {
+        index.delete(key)
+        index.set(key, tierEntry)
+      }
+    }
+  }
+
+  // ============ Persistent Tiers ============
+
+  /**
+   * Make room for an entry in a persistent tier
+   * Only entries of the same or a lower priority are evicted for it
+   * @returns Whether the entry fits; when false, it must not be persisted
+   */
+  private reserve(tier: PersistentTier, key: string, size: number, priority: number, tags?: string[]): boolean {
+    const index = this.persisted[tier]
+    this.forget(tier, key)
+
+    if (size > this.budgets[tier]) {
+      return false
+    }
+
+    while (this.persistedBytes[tier] + size > this.budgets[tier]) {
+      const victim = findEvictionVictim(index)
+      if (!victim || index.get(victim)!.priority > priority) {
+        return false
+      }
+      this.removeFromTier(tier, victim)
+    }
+
+    index.set(key, { size, priority, tags })
+    this.persistedBytes[tier] += size
+    return true
+  }
+
+  /**
+   * Evict least valuable entries until a tier is within its budget
+   */
+  private prune(tier: PersistentTier): void {
+    const index = this.persisted[tier]
+    while (this.persistedBytes[tier] > this.budgets[tier]) {
+      const victim = findEvictionVictim(index)
+      if (!victim) break
+      this.removeFromTier(tier, victim)
+    }
+  }
+
+  /**
+   * Account for an entry written to a tier elsewhere (no eviction)
+   */
+  private track(tier: PersistentTier, key: string, size: number, priority: number, tags?: string[]): void {
+    this.forget(tier, key)
+    this.persisted[tier].set(key, { size, priority, tags })
+    this.persistedBytes[tier] += size
+  }
+
+  /**
+   * Drop an entry from a tier's accounting (not from the tier itself)
+   */
+  private forget(tier: PersistentTier, key: string): void {
+    const tierEntry = this.persisted[tier].get(key)
+    if (tierEntry) {
+      this.persisted[tier].delete(key)
+      this.persistedBytes[tier] -= tierEntry.size
+    }
+  }
+
+  private removeFromTier(tier: PersistentTier, key: string): void {
+    if (tier === "localStorage") {
+      this.removeFromLocalStorage(key)
+    } else {
+      this.removeFromStorage(key)
+    }
+  }
+
+  /**
+   * Index persisted entries and load stored entries into memory
+   * Storage entries are loaded newest first, without evicting anything
+   * already in memory; entries written while loading are newer and win
+   */
+  private async hydrate(): Promise<void> {
+    this.upgradeLocalStorage()
+    this.indexLocalStorage()
+
+    if (!this.storage) return
+
+    const stored: CacheEntry<unknown>[] = []
+    const migrated: CacheEntry<unknown>[] = []
+    try {
+      for (const entry of await this.storage.getAll()) {
+        const upgraded = upgradeEntry(entry)
+        if (!upgraded) {
+          this.removeFromStorage(entry.key)
+          continue
+        }
+        if (upgraded !== entry) {
+          migrated.push(upgraded)
+        }
+        stored.push(upgraded)
+      }
+    } catch (error) {
+      console.warn(`Failed to load cache storage "${this.storage.name}":`, error)
+      return
+    }
+
+    // Oldest first, so the index starts in LRU order
+    stored.sort((a, b) => a.timestamp - b.timestamp)
+    for (const entry of stored) {
+      if (this.persisted.storage.has(entry.key)) continue
+      const size = entry.size ?? estimateSize(entry.data)
+      this.persisted.storage.set(entry.key, { size, priority: entry.priority ?? CachePriority.NORMAL, tags: entry.tags ?? [] })
+      this.persistedBytes.storage += size
+    }
+    this.prune("storage")
+    migrated.filter((entry) => this.persisted.storage.has(entry.key)).forEach((entry) => this.setToStorage(entry))
+
+    const loaded: string[] = []
+    for (const entry of stored.reverse()) {
+      if (!this.persisted.storage.has(entry.key) || this.cache.has(entry.key)) continue
+
+      const size = entry.size ?? estimateSize(entry.data)
+      if (this.cache.size >= this.maxSize || this.memoryBytes + size > this.budgets.memory) break
+
+      this.storeInMemory({ ...entry, size })
+      loaded.push(entry.key)
+    }
+
+    loaded.forEach((key) => this.notify(key))
+  }
+
+  /**
+   * Check every localStorage entry once per build
+   * Entries are read through getFromLocalStorage, which migrates or removes them
+   */
+  private upgradeLocalStorage(): void {
+    try {
+      if (localStorage.getItem(BUILD_MARKER) === BUILD_ID) return
+
+      for (const item of Object.keys(localStorage)) {
+        if (item.startsWith(this.localStoragePrefix)) {
+          this.getFromLocalStorage(item.slice(this.localStoragePrefix.length))
+        }
+      }
+      localStorage.setItem(BUILD_MARKER, BUILD_ID)
+    } catch {
+      // Ignore localStorage errors (not available in some contexts)
+    }
+  }
+
+  /**
+   * Account for localStorage entries left by previous sessions
+   * Item lengths are enough for the budget; the entries are not parsed
+   */
+  private indexLocalStorage(): void {
+    try {
+      for (const item of Object.keys(localStorage)) {
+        if (!item.startsWith(this.localStoragePrefix)) continue
+
+        const key = item.slice(this.localStoragePrefix.length)
+        if (this.persisted.localStorage.has(key)) continue
+
+        const size = (item.length + (localStorage.getItem(item)?.length ?? 0)) * 2 // UTF-16
+        this.persisted.localStorage.set(key, { size, priority: CachePriority.NORMAL })
+        this.persistedBytes.localStorage += size
+      }
+      this.prune("localStorage")
+    } catch {
+      // Ignore localStorage errors (not available in some contexts)
     }
   }
 
+  private setToStorage<T>(entry: CacheEntry<T>): void {
+    if (!this.storage) return
+
+    const size = entry.size ?? estimateSize(entry.data)
+    if (!this.reserve("storage", entry.key, size, entry.priority ?? CachePriority.NORMAL, entry.tags ?? [])) {
+      // Over budget: drop the outdated copy rather than keep it
+      this.removeFromStorage(entry.key)
+      return
+    }
+
+    this.storage.set(entry).catch((error) => {
+      // The entry stays in memory; it just won't survive a reload
+      this.forget("storage", entry.key)
+      console.warn(
+        isQuotaError(error)
+          ? `Cache storage "${this.storage?.name}" is full, ${entry.key} is kept in memory only`
+          : `Failed to persist ${entry.key} to cache storage "${this.storage?.name}":`,
+        error,
+      )
+    })
+  }
+
+  private removeFromStorage(key: string): void {
+    this.forget("storage", key)
+    this.storage?.delete(key).catch(() => {
+      // Ignore storage errors: a leftover entry is overwritten or expires
+    })
+  }
+
+  /**
+   * Read a localStorage entry, upgraded to the current version of its family
+   * Entries that cannot be upgraded are removed so they never reach the UI
+   */
   private getFromLocalStorage<T>(key: string): CacheEntry<T> | null {
+    let stored: CacheEntry<T> | null
     try {
-      const stored = localStorage.getItem(this.localStoragePrefix + key)
-      return stored ? JSON.parse(stored) : null
+      const item = localStorage.getItem(this.localStoragePrefix + key)
+      stored = item ? JSON.parse(item) : null
     } catch {
       return null
     }
+    if (!stored) return null
+
+    const upgraded = upgradeEntry(stored)
+    if (!upgraded) {
+      this.removeFromLocalStorage(key)
+    } else if (upgraded !== stored) {
+      this.setToLocalStorage(key, upgraded)
+    }
+    return upgraded
   }
 
   private setToLocalStorage<T>(key: string, entry: CacheEntry<T>): void {
     try {
-      localStorage.setItem(this.localStoragePrefix + key, JSON.stringify(entry))
+      const item = this.localStoragePrefix + key
+      const value = JSON.stringify(entry)
+
+      const size = (item.length + value.length) * 2 // UTF-16
+      if (!this.reserve("localStorage", key, size, entry.priority ?? CachePriority.NORMAL, entry.tags ?? [])) {
+        // Over budget: drop the outdated copy rather than keep it
+        this.removeFromLocalStorage(key)
+        return
+      }
+      localStorage.setItem(item, value)
+    } catch (error) {
+      this.removeFromLocalStorage(key)
+      if (isQuotaError(error) && this.storage) {
+        // localStorage is full: move the entry to the larger storage instead
+        this.setToStorage(entry)
+      }
+      // Ignore other localStorage errors (private mode, not available, etc.)
+    }
+  }
+
+  /**
+   * Tags of a localStorage entry indexed without being parsed (see indexLocalStorage)
+   * Read once and kept in the index
+   */
+  private readLocalStorageTags(key: string, tierEntry: TierEntry): string[] {
+    try {
+      const item = localStorage.getItem(this.localStoragePrefix + key)
+      tierEntry.tags = item ? ((JSON.parse(item) as CacheEntry<unknown>).tags ?? []) : []
     } catch {
-      // Ignore localStorage errors (quota exceeded, etc.)
+      tierEntry.tags = []
     }
+    return tierEntry.tags
   }
 
   private removeFromLocalStorage(key: string): void {
+    this.forget("localStorage", key)
     try {
       localStorage.removeItem(this.localStoragePrefix + key)
     } catch {
@@ -238,6 +1038,8 @@ class CacheManager {
   }
 
   private clearLocalStorage(): void {
+    this.persisted.localStorage.clear()
+    this.persistedBytes.localStorage = 0
     try {
       const keys = Object.keys(localStorage)
       keys.forEach((key) => {
@@ -253,6 +1055,7 @@ class CacheManager {
   // Performance tracking
   private hitCount = 0
   private missCount = 0
+  private metrics = new CacheMetrics()
 
   /**
    * Calculate cache hit rate for monitoring
@@ -265,16 +1068,54 @@ class CacheManager {
 
   /**
    * Record a cache hit (data found in cache)
+   * @param key - Cache key, for the per-family metrics
    */
-  recordHit(): void {
+  recordHit(key?: string): void {
     this.hitCount++
+    if (key) this.metrics.count(key, "hits")
   }
 
   /**
    * Record a cache miss (data not found in cache)
+   * @param key - Cache key, for the per-family metrics
    */
-  recordMiss(): void {
+  recordMiss(key?: string): void {
     this.missCount++
+    if (key) this.metrics.count(key, "misses")
+  }
+
+  /**
+   * Record expired data served to a caller (stale-while-revalidate or upstream failure)
+   * @param key - Cache key
+   */
+  recordStaleServe(key: string): void {
+    this.metrics.count(key, "staleServes")
+  }
+
+  /**
+   * Record a background revalidation being started
+   * @param key - Cache key
+   */
+  recordRevalidation(key: string): void {
+    this.metrics.count(key, "revalidations")
+  }
+
+  /**
+   * Record a completed load of a key's data from the upstream
+   * @param key - Cache key
+   * @param durationMs - Load duration, retries included
+   * @param ok - Whether the load succeeded
+   */
+  recordLoad(key: string, durationMs: number, ok: boolean): void {
+    this.metrics.recordLoad(key, durationMs, ok)
+  }
+
+  /**
+   * Get hit/miss counters and load latency per key family
+   * @returns Metrics of every family seen so far
+   */
+  getMetrics(): FamilyMetrics[] {
+    return this.metrics.snapshot()
   }
 }
 
@@ -282,15 +1123,17 @@ class CacheManager {
  * Singleton instance of the cache manager
  * Use this instance throughout the application for consistent caching
  */
-export const cacheManager = new CacheManager()
+export const cacheManager = new CacheManager({ storage: createLargeEntryStorage() })
 
 /**
  * Predefined caching strategies optimized for different data types
  * 
  * Each strategy defines:
  * - TTL: How long data stays fresh
- * - persistToLocalStorage: Whether to survive page reloads
+ * - persistToLocalStorage / persistToIndexedDB: Whether to survive page reloads
+ *   (IndexedDB for large entries, read back asynchronously at startup)
  * - staleWhileRevalidate: Whether to show old data while fetching new
+ * - priority: Which entries are evicted first when a tier is over budget
  */
 export const CacheStrategies = {
   /**
@@ -301,6 +1144,7 @@ export const CacheStrategies = {
     ttl: 5 * 60 * 1000, // 5 minutes
     persistToLocalStorage: true,
     staleWhileRevalidate: true,
+    priority: CachePriority.NORMAL,
   },
 
   /**
@@ -311,6 +1155,18 @@ export const CacheStrategies = {
     ttl: 10 * 60 * 1000, // 10 minutes
     persistToLocalStorage: true,
     staleWhileRevalidate: true,
+    priority: CachePriority.NORMAL,
+  },
+
+  /**
+   * Complete active baker set - Long cache with IndexedDB persistence
+   * Used for: All active bakers loaded page by page (expensive to rebuild, too large for localStorage)
+   */
+  ALL_BAKERS: {
+    ttl: 30 * 60 * 1000, // 30 minutes
+    persistToIndexedDB: true,
+    staleWhileRevalidate: true,
+    priority: CachePriority.HIGH,
   },
 
   /**
@@ -321,16 +1177,30 @@ export const CacheStrategies = {
     ttl: 2 * 60 * 1000, // 2 minutes
     persistToLocalStorage: false,
     staleWhileRevalidate: true,
+    priority: CachePriority.LOW,
   },
 
   /**
-   * Baker rewards - Long cache with persistence
-   * Used for: Historical reward data (rarely changes)
+   * Baker rewards - Very short cache, no persistence
+   * Used for: Rewards of the current and upcoming cycles, which change with every block
+   * (entries also expire with the next block, see getBakerRewards)
    */
   BAKER_REWARDS: {
-    ttl: 30 * 60 * 1000, // 30 minutes
-    persistToLocalStorage: true,
+    ttl: 30 * 1000, // 30 seconds at most
+    persistToLocalStorage: false,
+    staleWhileRevalidate: false,
+    priority: CachePriority.NORMAL,
+  },
+
+  /**
+   * Finalized baker rewards - Kept indefinitely with IndexedDB persistence
+   * Used for: Reward history of completed cycles (never changes, grows with every cycle)
+   */
+  FINALIZED_REWARDS: {
+    ttl: FOREVER,
+    persistToIndexedDB: true,
     staleWhileRevalidate: false,
+    priority: CachePriority.HIGH,
   },
 
   /**
@@ -341,19 +1211,112 @@ export const CacheStrategies = {
     ttl: 1 * 60 * 1000, // 1 minute
     persistToLocalStorage: false,
     staleWhileRevalidate: true,
+    priority: CachePriority.LOW,
   },
 } as const
 
+/**
+ * Prefix a cache key with the active network's namespace
+ * Keeps mainnet, testnet and custom indexer data apart in memory and localStorage
+ */
+function networkKey(key: string): string {
+  return `${getActiveNetwork().cacheNamespace}:${key}`
+}
+
 /**
  * Utility functions to generate consistent cache keys
  * Using these ensures cache keys are standardized across the app
+ * All keys are namespaced by the active Tezos network
  */
 export const CacheKeys = {
-  networkStats: () => "network_stats",
-  currentCycle: () => "current_cycle",
-  activeBakers: (limit: number) => `active_bakers_${limit}`,
-  bakerDetails: (address: string) => `baker_details_${address}`,
-  bakerRewards: (address: string, limit: number) => `baker_rewards_${address}_${limit}`,
-  bakersStats: () => "bakers_stats",
-  topBakers: (limit: number, sortBy: string) => `top_bakers_${limit}_${sortBy}`,
+  networkStats: () => networkKey("network_stats"),
+  currentCycle: () => networkKey("current_cycle"),
+  currentProtocol: () => networkKey("current_protocol"),
+  activeBakers: (limit: number) => networkKey(`active_bakers_${limit}`),
+  allActiveBakers: () => networkKey("active_bakers_all"),
+  bakerDetails: (address: string) => networkKey(`baker_details_${address}`),
+  bakerRewards: (address: string, limit: number) => networkKey(`baker_rewards_${address}_${limit}`),
+  finalizedRewards: (address: string) => networkKey(`finalized_rewards_${address}`),
+  bakersStats: () => networkKey("bakers_stats"),
+  topBakers: (limit: number, sortBy: string) => networkKey(`top_bakers_${limit}_${sortBy}`),
+  networkPrefix: () => networkKey(""),   // Common prefix of every key of the active network
 } as const
+
+/**
+ * Tags grouping related cache entries, for use with invalidateTag
+ * Scoped to the active network like cache keys. Entries of a known key
+ * family carry the network and type tags automatically (see keyTags).
+ */
+export const CacheTags = {
+  network: () => networkTag(getActiveNetwork().cacheNamespace, "network"),
+  type: (family: string) => networkTag(getActiveNetwork().cacheNamespace, `type:${family}`),  // Key family (see cache-versions.ts)
+  baker: (address: string) => networkTag(getActiveNetwork().cacheNamespace, `baker:${address}`),
+  cycle: (cycle: number) => networkTag(getActiveNetwork().cacheNamespace, `cycle:${cycle}`),
+  finalized: () => networkTag(getActiveNetwork().cacheNamespace, "finalized"),     // Data that never changes (completed cycles)
+} as const
+
+function networkTag(namespace: string, name: string): string {
+  return `${namespace}:#${name}`
+}
+
+/**
+ * Network and type tags of a key of a known family
+ * Keys look like "<network namespace>:<family>[_<parameters>]"
+ */
+function keyTags(key: string): string[] {
+  const family = cacheFamilyOf(key)
+  if (!family) return []
+
+  const namespace = key.slice(0, key.lastIndexOf(`:${family}`))
+  return [networkTag(namespace, "network"), networkTag(namespace, `type:${family}`)]
+}
+
+// ============ Eviction Helpers ============
+
+/**
+ * Pick the entry to evict: lowest priority first, least recently used
+ * within a priority (entries are iterated in LRU order)
+ * @returns Key of the entry to evict, or null when there is none
+ */
+function findEvictionVictim(entries: Map<string, { priority?: number }>): string | null {
+  let victim: string | null = null
+  let victimPriority = Infinity
+
+  for (const [key, entry] of entries) {
+    const priority = entry.priority ?? CachePriority.NORMAL
+    if (priority < victimPriority) {
+      victim = key
+      victimPriority = priority
+    }
+  }
+
+  return victim
+}
+
+/**
+ * Estimate the memory used by a JSON-like value, in bytes
+ * Walks the value instead of serializing it, so large payloads are not copied
+ */
+function estimateSize(value: unknown): number {
+  switch (typeof value) {
+    case "string":
+      return 2 * value.length // UTF-16
+    case "number":
+      return 8
+    case "boolean":
+      return 4
+    case "object": {
+      if (value === null) return 0
+      if (Array.isArray(value)) {
+        return value.reduce<number>((total, item) => total + estimateSize(item), 0)
+      }
+      let total = 0
+      for (const [key, item] of Object.entries(value)) {
+        total += 2 * key.length + estimateSize(item)
+      }
+      return total
+    }
+    default:
+      return 0
+  }
+}
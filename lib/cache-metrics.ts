@@ -0,0 +1,210 @@
+/**
+ * Cache Metrics per Key Family
+ *
+ * A single hit rate mixes every data type together: a perfect hit rate on
+ * network stats can hide baker rewards that are refetched on every visit.
+ * CacheManager records its events here per key family (see cache-versions.ts):
+ * - hits and misses
+ * - stale serves (stale-while-revalidate, or while the upstream is failing)
+ * - background revalidations
+ * - loads: duration percentiles over recent samples, and error counts
+ *
+ * Metrics can optionally be sent to the PostHog instance loaded by the root
+ * layout (NEXT_PUBLIC_CACHE_METRICS_EXPORT=posthog, see startMetricsExport).
+ */
+
+import type { CacheManager } from "./cache-manager"
+import { cacheFamilyOf } from "./cache-versions"
+
+/**
+ * Load duration percentiles in milliseconds (null before the first load)
+ */
+export interface LatencyPercentiles {
+  p50: number | null
+  p90: number | null
+  p99: number | null
+  max: number | null
+}
+
+/**
+ * Counters and load latency of one key family
+ */
+export interface FamilyMetrics {
+  family: string                // Key family, or "other" for keys outside the known families
+  hits: number                  // Requests served from cache (stale serves included)
+  misses: number                // Requests that had to load from the upstream
+  hitRate: number               // hits / (hits + misses), as a decimal (0-1)
+  staleServes: number           // Expired data served (stale-while-revalidate or upstream failure)
+  revalidations: number         // Background revalidations started
+  loads: number                 // Completed loads (successful or not)
+  errors: number                // Failed loads (cancelled loads are not counted)
+  latency: LatencyPercentiles   // Duration of recent loads, retries included
+}
+
+type Counter = "hits" | "misses" | "staleServes" | "revalidations" | "loads" | "errors"
+
+/**
+ * Raw counters and recent load durations of a family
+ */
+interface FamilyRecord {
+  counters: Record<Counter, number>
+  samples: number[]   // Ring buffer of load durations
+  next: number        // Next ring buffer slot to overwrite
+}
+
+// Recent loads kept per family for the percentiles
+const MAX_SAMPLES = 200
+
+const OTHER_FAMILY = "other"
+
+/**
+ * CacheMetrics class - Per-family counters and latency samples
+ *
+ * Features:
+ * - Counters per key family, derived from the cache key
+ * - Latency percentiles over the last 200 loads of each family
+ * - Snapshots for display, deltas for export
+ */
+export class CacheMetrics {
+  private families = new Map<string, FamilyRecord>()
+
+  /**
+   * Increase a counter of the key's family
+   * @param key - Cache key
+   * @param counter - Counter to increase
+   */
+  count(key: string, counter: Counter): void {
+    this.recordOf(key).counters[counter]++
+  }
+
+  /**
+   * Record a completed load of the key's data
+   * @param key - Cache key
+   * @param durationMs - Load duration, retries included
+   * @param ok - Whether the load succeeded
+   */
+  recordLoad(key: string, durationMs: number, ok: boolean): void {
+    const record = this.recordOf(key)
+    record.counters.loads++
+    if (!ok) {
+      record.counters.errors++
+    }
+
+    record.samples[record.next] = durationMs
+    record.next = (record.next + 1) % MAX_SAMPLES
+  }
+
+  /**
+   * Metrics of every family seen so far, sorted by family name
+   */
+  snapshot(): FamilyMetrics[] {
+    return Array.from(this.families.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([family, { counters, samples }]) => ({
+        family,
+        ...counters,
+        hitRate: counters.hits + counters.misses > 0 ? counters.hits / (counters.hits + counters.misses) : 0,
+        latency: percentiles(samples),
+      }))
+  }
+
+  private recordOf(key: string): FamilyRecord {
+    const family = cacheFamilyOf(key) ?? OTHER_FAMILY
+
+    let record = this.families.get(family)
+    if (!record) {
+      record = {
+        counters: { hits: 0, misses: 0, staleServes: 0, revalidations: 0, loads: 0, errors: 0 },
+        samples: [],
+        next: 0,
+      }
+      this.families.set(family, record)
+    }
+    return record
+  }
+}
+
+// ============ PostHog Export ============
+
+/**
+ * The part of the PostHog browser client used here
+ */
+interface PostHogClient {
+  capture(event: string, properties?: Record<string, unknown>): void
+}
+
+/**
+ * Whether metrics should be sent to PostHog (NEXT_PUBLIC_CACHE_METRICS_EXPORT=posthog)
+ */
+export function isMetricsExportEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_CACHE_METRICS_EXPORT === "posthog"
+}
+
+/**
+ * Periodically send the cache metrics to PostHog as "cache_metrics" events
+ * One event per family with activity since the previous export; counters are
+ * sent as deltas so events can be summed, latency as current percentiles.
+ * Also exports when the page is hidden, so short visits are not lost.
+ * @param cache - Cache manager whose metrics are exported
+ * @param intervalMs - Export interval (default: 60 s)
+ * @returns Function stopping the export
+ */
+export function startMetricsExport(cache: CacheManager, intervalMs = 60 * 1000): () => void {
+  if (typeof window === "undefined") return () => {}
+
+  let previous = new Map<string, FamilyMetrics>()
+
+  const flush = () => {
+    const posthog = (window as { posthog?: PostHogClient }).posthog
+    if (typeof posthog?.capture !== "function") return
+
+    const current = cache.getMetrics()
+    for (const metrics of current) {
+      const before = previous.get(metrics.family)
+      const delta = (counter: Counter) => metrics[counter] - (before?.[counter] ?? 0)
+      if (delta("hits") + delta("misses") + delta("loads") === 0) continue
+
+      posthog.capture("cache_metrics", {
+        family: metrics.family,
+        hits: delta("hits"),
+        misses: delta("misses"),
+        stale_serves: delta("staleServes"),
+        revalidations: delta("revalidations"),
+        loads: delta("loads"),
+        errors: delta("errors"),
+        latency_p50_ms: metrics.latency.p50,
+        latency_p90_ms: metrics.latency.p90,
+        latency_p99_ms: metrics.latency.p99,
+      })
+    }
+    previous = new Map(current.map((metrics) => [metrics.family, metrics]))
+  }
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "hidden") flush()
+  }
+
+  const timer = setInterval(flush, intervalMs)
+  document.addEventListener("visibilitychange", onVisibilityChange)
+
+  return () => {
+    clearInterval(timer)
+    document.removeEventListener("visibilitychange", onVisibilityChange)
+  }
+}
+
+// ============ Private Helpers ============
+
+/**
+ * Nearest-rank percentiles of the recorded durations
+ */
+function percentiles(samples: number[]): LatencyPercentiles {
+  if (samples.length === 0) {
+    return { p50: null, p90: null, p99: null, max: null }
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b)
+  const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]
+
+  return { p50: rank(50), p90: rank(90), p99: rank(99), max: sorted[sorted.length - 1] }
+}
@@ -0,0 +1,308 @@
+/**
+ * Persistent Storage Backends for CacheManager
+ *
+ * localStorage is synchronous, stores strings only (every write runs
+ * JSON.stringify on the main thread) and is limited to about 5 MB per
+ * origin. Large entries such as the full baker set or reward histories
+ * go through a storage adapter instead:
+ * - IndexedDB (default): asynchronous, structured clone, quota in the hundreds of MB
+ * - localStorage: fallback when IndexedDB is unavailable (e.g. blocked by the browser)
+ * - Memory: last resort, and for server-side instances; nothing survives a reload
+ *
+ * Adapters are asynchronous. CacheManager loads every stored entry once at
+ * startup (see `cacheManager.ready`) and then serves them from memory.
+ */
+
+import type { CacheEntry } from "./cache-manager"
+
+/**
+ * Asynchronous key-value storage for cache entries
+ */
+export interface CacheStorageAdapter {
+  readonly name: string                                  // Backend name, shown in cache statistics
+  getAll(): Promise<CacheEntry<unknown>[]>               // Load every stored entry
+  get(key: string): Promise<CacheEntry<unknown> | null>  // Load one entry
+  set(entry: CacheEntry<unknown>): Promise<void>         // Store an entry under entry.key
+  delete(key: string): Promise<void>                     // Remove one entry
+  clear(): Promise<void>                                 // Remove every entry
+}
+
+/**
+ * Check whether an error means the storage quota is exhausted
+ * Browsers disagree on the name and code of this error
+ */
+export function isQuotaError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) return false
+
+  const { name, code } = error as { name?: string; code?: number }
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED" || code === 22 || code === 1014
+}
+
+// ============ IndexedDB ============
+
+/**
+ * IndexedDB backend: one object store keyed by cache key
+ */
+export class IndexedDBStorage implements CacheStorageAdapter {
+  readonly name = "indexeddb"
+  private db: Promise<IDBDatabase> | null = null
+
+  /**
+   * @param databaseName - IndexedDB database name
+   * @param storeName - Object store holding the entries
+   */
+  constructor(
+    private readonly databaseName = "tzkt_cache",
+    private readonly storeName = "entries",
+  ) {}
+
+  /**
+   * Whether IndexedDB exists in this environment (not on the server)
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== "undefined"
+  }
+
+  async getAll(): Promise<CacheEntry<unknown>[]> {
+    const store = await this.store("readonly")
+    return requestResult<CacheEntry<unknown>[]>(store.getAll())
+  }
+
+  async get(key: string): Promise<CacheEntry<unknown> | null> {
+    const store = await this.store("readonly")
+    return (await requestResult<CacheEntry<unknown> | undefined>(store.get(key))) ?? null
+  }
+
+  async set(entry: CacheEntry<unknown>): Promise<void> {
+    await this.write((store) => store.put(entry))
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.write((store) => store.delete(key))
+  }
+
+  async clear(): Promise<void> {
+    await this.write((store) => store.clear())
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open()
+    return db.transaction(this.storeName, mode).objectStore(this.storeName)
+  }
+
+  /**
+   * Run a write and wait for its transaction to commit
+   * Quota errors only surface when the transaction aborts, not on the request
+   */
+  private async write(operation: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const store = await this.store("readwrite")
+    const transaction = store.transaction
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onabort = () => reject(transaction.error)
+      transaction.onerror = () => reject(transaction.error)
+      operation(store)
+    })
+  }
+
+  /**
+   * Open the database once; a failed open is retried on the next call
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName, { keyPath: "key" })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+        request.onblocked = () => reject(new Error(`IndexedDB "${this.databaseName}" is blocked by another tab`))
+      })
+      this.db.catch(() => {
+        this.db = null
+      })
+    }
+    return this.db
+  }
+}
+
+// ============ localStorage ============
+
+/**
+ * localStorage backend: one item per entry, under a key prefix
+ */
+export class LocalStorageStorage implements CacheStorageAdapter {
+  readonly name = "localstorage"
+
+  /**
+   * @param prefix - Prefix of the item keys, so entries never collide with other data
+   */
+  constructor(private readonly prefix = "tzkt_store_") {}
+
+  /**
+   * Whether localStorage exists and accepts writes in this environment
+   */
+  static isAvailable(): boolean {
+    try {
+      const probe = "tzkt_cache_probe"
+      localStorage.setItem(probe, probe)
+      localStorage.removeItem(probe)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async getAll(): Promise<CacheEntry<unknown>[]> {
+    const entries: CacheEntry<unknown>[] = []
+
+    for (const key of Object.keys(localStorage)) {
+      if (!key.startsWith(this.prefix)) continue
+      try {
+        entries.push(JSON.parse(localStorage.getItem(key) ?? "null"))
+      } catch {
+        // Skip corrupted items
+      }
+    }
+
+    return entries.filter(Boolean)
+  }
+
+  async get(key: string): Promise<CacheEntry<unknown> | null> {
+    try {
+      return JSON.parse(localStorage.getItem(this.prefix + key) ?? "null")
+    } catch {
+      return null
+    }
+  }
+
+  async set(entry: CacheEntry<unknown>): Promise<void> {
+    localStorage.setItem(this.prefix + entry.key, JSON.stringify(entry))
+  }
+
+  async delete(key: string): Promise<void> {
+    localStorage.removeItem(this.prefix + key)
+  }
+
+  async clear(): Promise<void> {
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(this.prefix))
+      .forEach((key) => localStorage.removeItem(key))
+  }
+}
+
+// ============ Memory ============
+
+/**
+ * In-memory backend: keeps the adapter contract where nothing can persist
+ */
+export class MemoryStorage implements CacheStorageAdapter {
+  readonly name = "memory"
+  private entries = new Map<string, CacheEntry<unknown>>()
+
+  async getAll(): Promise<CacheEntry<unknown>[]> {
+    return Array.from(this.entries.values())
+  }
+
+  async get(key: string): Promise<CacheEntry<unknown> | null> {
+    return this.entries.get(key) ?? null
+  }
+
+  async set(entry: CacheEntry<unknown>): Promise<void> {
+    this.entries.set(entry.key, entry)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+// ============ Fallback Chain ============
+
+/**
+ * Uses the first adapter until it fails, then switches to the next one for good
+ * Quota errors are passed through instead: a smaller backend would not help
+ */
+export class FallbackStorage implements CacheStorageAdapter {
+  private index = 0
+
+  /**
+   * @param adapters - Backends in order of preference; the last one should never fail
+   */
+  constructor(private readonly adapters: CacheStorageAdapter[]) {
+    if (adapters.length === 0) {
+      throw new Error("FallbackStorage needs at least one adapter")
+    }
+  }
+
+  get name(): string {
+    return this.adapters[this.index].name
+  }
+
+  getAll(): Promise<CacheEntry<unknown>[]> {
+    return this.run((adapter) => adapter.getAll())
+  }
+
+  get(key: string): Promise<CacheEntry<unknown> | null> {
+    return this.run((adapter) => adapter.get(key))
+  }
+
+  set(entry: CacheEntry<unknown>): Promise<void> {
+    return this.run((adapter) => adapter.set(entry))
+  }
+
+  delete(key: string): Promise<void> {
+    return this.run((adapter) => adapter.delete(key))
+  }
+
+  clear(): Promise<void> {
+    return this.run((adapter) => adapter.clear())
+  }
+
+  private async run<T>(operation: (adapter: CacheStorageAdapter) => Promise<T>): Promise<T> {
+    for (;;) {
+      const adapter = this.adapters[this.index]
+      try {
+        return await operation(adapter)
+      } catch (error) {
+        if (isQuotaError(error) || this.index === this.adapters.length - 1) {
+          throw error
+        }
+        this.index++
+        console.warn(`Cache storage "${adapter.name}" failed, falling back to "${this.name}":`, error)
+      }
+    }
+  }
+}
+
+/**
+ * Storage for large entries in the browser: IndexedDB, then localStorage, then memory
+ */
+export function createLargeEntryStorage(): CacheStorageAdapter {
+  const adapters: CacheStorageAdapter[] = []
+
+  if (IndexedDBStorage.isAvailable()) {
+    adapters.push(new IndexedDBStorage())
+  }
+  if (LocalStorageStorage.isAvailable()) {
+    adapters.push(new LocalStorageStorage())
+  }
+  adapters.push(new MemoryStorage())
+
+  return adapters.length === 1 ? adapters[0] : new FallbackStorage(adapters)
+}
+
+// ============ Private Helpers ============
+
+function requestResult<T>(request: IDBRequest): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
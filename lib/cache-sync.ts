@@ -0,0 +1,368 @@
+/**
+ * Cross-tab Cache Synchronisation
+ *
+ * Every tab has its own `cacheManager`. Without coordination, each tab
+ * refetches the same data on its own schedule and shows a different
+ * "last updated" time. This module shares cache writes between tabs:
+ * - set/update, invalidate and clear are broadcast to the other tabs,
+ *   which replay them in memory (persistent storage is already shared)
+ * - One visible tab is elected polling leader: only it runs scheduled
+ *   refreshes and the TzKT event client; the other tabs consume its updates
+ * - A hidden tab leaves the election, so a visible tab takes over polling
+ * - The leader can publish small pieces of state (e.g. the event client
+ *   status) for the followers to display
+ *
+ * Transport: BroadcastChannel, or the `storage` event where it is missing.
+ * Election: the Web Locks API, or heartbeats over the transport.
+ */
+
+import { cacheManager, type CacheChange, type CacheManager } from "./cache-manager"
+
+/**
+ * Configuration of a CacheSync instance
+ */
+export interface CacheSyncOptions {
+  channelName?: string          // BroadcastChannel, lock and storage key name (default: "tzkt_cache_sync")
+  heartbeatMs?: number          // Leader heartbeat interval without Web Locks (default: 2 s)
+  leaderTimeoutMs?: number      // Silence after which a follower takes over (default: 5 s)
+}
+
+/**
+ * Message exchanged between tabs
+ */
+type SyncMessage =
+  | { kind: "change"; tabId: string; change: CacheChange }
+  | { kind: "publish"; tabId: string; topic: string; data: unknown }
+  | { kind: "hello"; tabId: string }       // A tab started: the leader republishes its state
+  | { kind: "heartbeat"; tabId: string }   // Leader is alive (heartbeat election only)
+  | { kind: "resign"; tabId: string }      // Leader is leaving (heartbeat election only)
+
+// Changes larger than this are sent as invalidations over the storage event:
+// the other tabs then read the entry back from persistent storage
+const MAX_STORAGE_EVENT_BYTES = 256 * 1024
+
+/**
+ * CacheSync class - Shares cache writes and the polling leader role between tabs
+ *
+ * Features:
+ * - Replays remote set/invalidate/clear in the local cache manager
+ * - Leader election with Web Locks (released automatically when the tab closes)
+ * - Heartbeat election fallback with a deterministic tie-break
+ * - Hidden tabs give up the role and rejoin the election when shown again
+ * - Leader-published state, replayed to tabs that start later
+ */
+export class CacheSync {
+  private readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+  private started = false
+  private leader = false
+  private channel: BroadcastChannel | null = null
+  private unsubscribeCache: (() => void) | null = null
+  private lockController: AbortController | null = null
+  private releaseLock: (() => void) | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private electing = false
+  private lastLeaderSeen = 0
+  private published = new Map<string, unknown>()
+  private leaderListeners = new Set<() => void>()
+  private topicListeners = new Map<string, Set<(data: unknown) => void>>()
+
+  /**
+   * @param cache - Cache manager to keep in sync
+   * @param options - Instance configuration
+   */
+  constructor(
+    private readonly cache: CacheManager,
+    private readonly options: CacheSyncOptions = {},
+  ) {}
+
+  /**
+   * Start sharing cache writes and join the leader election
+   * Safe to call repeatedly; does nothing on the server
+   */
+  start(): void {
+    if (this.started || typeof window === "undefined") return
+    this.started = true
+
+    this.openTransport()
+    this.unsubscribeCache = this.cache.subscribeToChanges((change) => {
+      this.post({ kind: "change", tabId: this.tabId, change })
+    })
+
+    if (!document.hidden) {
+      this.joinElection()
+    }
+    window.addEventListener("pagehide", this.handlePageHide)
+    document.addEventListener("visibilitychange", this.handleVisibilityChange)
+
+    this.post({ kind: "hello", tabId: this.tabId })
+  }
+
+  /**
+   * Stop sharing and give up the leader role
+   */
+  stop(): void {
+    if (!this.started) return
+    this.started = false
+
+    this.leaveElection()
+    window.removeEventListener("pagehide", this.handlePageHide)
+    document.removeEventListener("visibilitychange", this.handleVisibilityChange)
+    this.unsubscribeCache?.()
+    this.unsubscribeCache = null
+    this.closeTransport()
+  }
+
+  /**
+   * Whether this tab runs scheduled refreshes for every tab
+   */
+  isLeader = (): boolean => this.leader
+
+  /**
+   * Subscribe to leader role changes
+   * @returns Unsubscribe function
+   */
+  subscribeToLeadership = (listener: () => void): (() => void) => {
+    this.leaderListeners.add(listener)
+    return () => {
+      this.leaderListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Share a value with the other tabs (leader only; ignored in followers)
+   * The latest value per topic is sent again to tabs that start later
+   * @param topic - Topic name
+   * @param data - Structured-cloneable value
+   */
+  publish(topic: string, data: unknown): void {
+    if (!this.leader) return
+
+    this.published.set(topic, data)
+    this.post({ kind: "publish", tabId: this.tabId, topic, data })
+  }
+
+  /**
+   * Subscribe to values published by the leader tab
+   * @param topic - Topic name
+   * @param listener - Called with every published value
+   * @returns Unsubscribe function
+   */
+  subscribeToTopic(topic: string, listener: (data: unknown) => void): () => void {
+    let listeners = this.topicListeners.get(topic)
+    if (!listeners) {
+      listeners = new Set()
+      this.topicListeners.set(topic, listeners)
+    }
+    listeners.add(listener)
+
+    return () => {
+      listeners?.delete(listener)
+    }
+  }
+
+  // ============ Messages ============
+
+  private handleMessage(message: SyncMessage): void {
+    if (message.tabId === this.tabId) return
+
+    switch (message.kind) {
+      case "change":
+        this.cache.applyRemoteChange(message.change)
+        return
+      case "publish":
+        this.topicListeners.get(message.topic)?.forEach((listener) => listener(message.data))
+        return
+      case "hello":
+        if (this.leader) {
+          this.published.forEach((data, topic) => this.post({ kind: "publish", tabId: this.tabId, topic, data }))
+        }
+        return
+      case "heartbeat":
+        this.lastLeaderSeen = Date.now()
+        // Two leaders after a race: the smaller tab id keeps the role
+        if (this.leader && message.tabId < this.tabId) {
+          this.setLeader(false)
+        }
+        return
+      case "resign":
+        // Let the next heartbeat check take over right away
+        this.lastLeaderSeen = 0
+        return
+    }
+  }
+
+  private post(message: SyncMessage): void {
+    if (this.channel) {
+      try {
+        this.channel.postMessage(message)
+      } catch (error) {
+        console.warn("Failed to share a cache change with other tabs:", error)
+      }
+      return
+    }
+
+    this.postThroughStorage(message)
+  }
+
+  // ============ Transport ============
+
+  private channelName(): string {
+    return this.options.channelName ?? "tzkt_cache_sync"
+  }
+
+  private openTransport(): void {
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(this.channelName())
+      this.channel.onmessage = (event: MessageEvent<SyncMessage>) => this.handleMessage(event.data)
+      return
+    }
+
+    window.addEventListener("storage", this.handleStorageEvent)
+  }
+
+  private closeTransport(): void {
+    this.channel?.close()
+    this.channel = null
+    window.removeEventListener("storage", this.handleStorageEvent)
+  }
+
+  /**
+   * Fallback transport: other tabs receive a `storage` event for every write
+   * The item is removed right away; the event has already been queued
+   */
+  private postThroughStorage(message: SyncMessage): void {
+    let value = JSON.stringify(message)
+
+    if (message.kind === "change" && message.change.type === "set" && value.length * 2 > MAX_STORAGE_EVENT_BYTES) {
+      const invalidation: SyncMessage = {
+        kind: "change",
+        tabId: this.tabId,
+        change: { type: "invalidate", key: message.change.entry.key },
+      }
+      value = JSON.stringify(invalidation)
+    }
+
+    try {
+      localStorage.setItem(this.channelName(), value)
+      localStorage.removeItem(this.channelName())
+    } catch {
+      // Ignore localStorage errors: tabs fall back to their own refreshes
+    }
+  }
+
+  private handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== this.channelName() || !event.newValue) return
+
+    try {
+      this.handleMessage(JSON.parse(event.newValue) as SyncMessage)
+    } catch {
+      // Ignore malformed messages
+    }
+  }
+
+  // ============ Leader Election ============
+
+  private joinElection(): void {
+    if (this.electing) return
+    this.electing = true
+
+    if (typeof navigator !== "undefined" && navigator.locks) {
+      // The lock is held until the tab is hidden, stop() or the tab closes
+      const controller = new AbortController()
+      this.lockController = controller
+
+      navigator.locks
+        .request(this.channelName(), { signal: controller.signal }, () => {
+          this.setLeader(true)
+          return new Promise<void>((resolve) => {
+            this.releaseLock = resolve
+          })
+        })
+        .catch(() => {
+          // Aborted while waiting for the lock (hidden or stopped before becoming leader)
+        })
+      return
+    }
+
+    if (!this.channel && !canUseStorageEvents()) {
+      // No way to reach other tabs: this tab is on its own
+      this.setLeader(true)
+      return
+    }
+
+    // Heartbeat election: claim the role after a silent period
+    const heartbeatMs = this.options.heartbeatMs ?? 2000
+    const timeoutMs = this.options.leaderTimeoutMs ?? 5000
+    // A new tab waits two heartbeats for an existing leader to show up
+    this.lastLeaderSeen = Date.now() - timeoutMs + heartbeatMs
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.leader && Date.now() - this.lastLeaderSeen > timeoutMs) {
+        this.setLeader(true)
+      }
+      if (this.leader) {
+        this.post({ kind: "heartbeat", tabId: this.tabId })
+      }
+    }, heartbeatMs)
+  }
+
+  private leaveElection(): void {
+    this.electing = false
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+      if (this.leader) {
+        this.post({ kind: "resign", tabId: this.tabId })
+      }
+    }
+
+    this.lockController?.abort()
+    this.lockController = null
+    this.releaseLock?.()
+    this.releaseLock = null
+
+    this.setLeader(false)
+  }
+
+  private handlePageHide = (): void => {
+    if (this.leader && this.heartbeatTimer) {
+      this.post({ kind: "resign", tabId: this.tabId })
+    }
+  }
+
+  /**
+   * A hidden leader pauses its refreshes: hand the role to a visible tab
+   */
+  private handleVisibilityChange = (): void => {
+    if (document.hidden) {
+      this.leaveElection()
+    } else {
+      this.joinElection()
+    }
+  }
+
+  private setLeader(leader: boolean): void {
+    if (this.leader === leader) return
+
+    this.leader = leader
+    if (!leader) {
+      this.published.clear()
+    }
+    this.leaderListeners.forEach((listener) => listener())
+  }
+}
+
+function canUseStorageEvents(): boolean {
+  try {
+    return typeof localStorage !== "undefined"
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Singleton keeping the shared `cacheManager` in sync across tabs
+ * Started by the data hooks (see usePollingLeader)
+ */
+export const cacheSync = new CacheSync(cacheManager)
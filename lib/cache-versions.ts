@@ -0,0 +1,118 @@
+/**
+ * Versioned Cache Entries
+ *
+ * Persisted entries outlive deploys. When the shape of cached data changes
+ * (e.g. a field is added to `Baker` or `Cycle`), entries written by older
+ * builds must not hydrate straight into the UI. Every entry is stamped with
+ * the version of its key family and the build that wrote it:
+ * - On read, older versions are upgraded through the family's migrations,
+ *   or discarded when no migration exists (entries without a version too)
+ * - Entries from a newer version (e.g. after a rollback) are discarded
+ * - Families marked `purgeOnDeploy` drop entries written by another build
+ *
+ * When changing a cached type, bump its family version here and, if the
+ * old data can be converted, add a migration from the previous version:
+ *
+ *   baker_details: { version: 2, migrations: { 1: (baker) => ({ ...baker, newField: 0 }) } }
+ */
+
+import type { CacheEntry } from "./cache-manager"
+
+/**
+ * Version and upgrade policy of a cache key family
+ */
+export interface CacheFamilyPolicy {
+  version: number                                     // Current shape version of the cached data
+  migrations?: Record<number, (data: any) => unknown> // Upgrade from version N (key) to N + 1
+  purgeOnDeploy?: boolean                             // Discard entries written by another build
+}
+
+/**
+ * Policies per key family (cache key name without network namespace and parameters)
+ */
+export const CACHE_FAMILIES: Record<string, CacheFamilyPolicy> = {
+  network_stats: { version: 1 },
+  current_cycle: { version: 1 },
+  current_protocol: { version: 1 },
+  active_bakers: { version: 1 },                      // Also the complete set (active_bakers_all)
+  baker_details: { version: 1 },
+  baker_rewards: { version: 1 },                      // Current and upcoming cycles
+  finalized_rewards: { version: 1 },                  // Completed cycles ({ from, to, rewards })
+  bakers_stats: { version: 1, purgeOnDeploy: true },  // Computed by the portal (APY providers)
+  top_bakers: { version: 1, purgeOnDeploy: true },
+}
+
+// Keys of removed or unlisted families cannot be checked, so they don't outlive a deploy
+const UNKNOWN_FAMILY: CacheFamilyPolicy = { version: 1, purgeOnDeploy: true }
+
+// Families sorted so the longest (most specific) name matches first
+const FAMILY_NAMES = Object.keys(CACHE_FAMILIES).sort((a, b) => b.length - a.length)
+
+/**
+ * Identifier of the running build (set in next.config.mjs)
+ */
+export const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID || "development"
+
+/**
+ * Find the family of a cache key
+ * Keys look like "<network namespace>:<family>[_<parameters>]"
+ * @returns Family name, or null when the key belongs to no known family
+ */
+export function cacheFamilyOf(key: string): string | null {
+  for (const family of FAMILY_NAMES) {
+    const index = key.lastIndexOf(`:${family}`)
+    if (index === -1) continue
+
+    const next = key.charAt(index + family.length + 1)
+    if (next === "" || next === "_") return family
+  }
+  return null
+}
+
+/**
+ * Version and build to store with a new entry
+ * @param key - Cache key
+ */
+export function entryVersion(key: string): { version: number; build: string } {
+  return { version: policyOf(key).version, build: BUILD_ID }
+}
+
+/**
+ * Bring a stored entry up to the current version of its family
+ * @param entry - Entry read from persistent storage or another tab
+ * @returns The entry, upgraded if needed, or null when it must be discarded
+ */
+export function upgradeEntry<T>(entry: CacheEntry<T>): CacheEntry<T> | null {
+  const policy = policyOf(entry.key)
+
+  if (policy.purgeOnDeploy && entry.build !== BUILD_ID) {
+    return null
+  }
+
+  let version = entry.version ?? 0
+  if (version > policy.version) {
+    // Written by a newer build: this one cannot read it
+    return null
+  }
+
+  let data: unknown = entry.data
+  while (version < policy.version) {
+    const migrate = policy.migrations?.[version]
+    if (!migrate) return null
+
+    try {
+      data = migrate(data)
+    } catch (error) {
+      console.warn(`Cache migration of ${entry.key} from version ${version} failed:`, error)
+      return null
+    }
+    version++
+  }
+
+  return version === entry.version ? entry : { ...entry, data: data as T, version }
+}
+
+function policyOf(key: string): CacheFamilyPolicy {
+  const family = cacheFamilyOf(key)
+  return family ? CACHE_FAMILIES[family] : UNKNOWN_FAMILY
+}
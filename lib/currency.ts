@@ -0,0 +1,162 @@
+/**
+ * Display Currency Preference
+ *
+ * Balances are always shown in XTZ. When the user picks another currency,
+ * they are also shown converted with TzKT price quotes:
+ * - Current balances use the latest quote (network statistics)
+ * - Historical rows use the quote of their own cycle
+ *
+ * The user's choice is persisted in localStorage so it survives page reloads.
+ */
+
+import type { Quote } from "./tzkt-api"
+
+/**
+ * Currencies TzKT can quote XTZ in
+ */
+export type QuoteCurrency = keyof Quote
+
+/**
+ * Currencies offered by the currency switcher ("xtz" shows no conversion)
+ */
+export type DisplayCurrency = "xtz" | QuoteCurrency
+
+/**
+ * Describes how a currency is displayed
+ */
+interface CurrencyInfo {
+  label: string            // Name for the UI
+  symbol: string           // Symbol for crypto amounts
+  fiat: boolean            // Whether Intl currency formatting applies
+}
+
+const CURRENCIES: Record<DisplayCurrency, CurrencyInfo> = {
+  xtz: { label: "XTZ", symbol: "ꜩ", fiat: false },
+  usd: { label: "USD", symbol: "$", fiat: true },
+  eur: { label: "EUR", symbol: "€", fiat: true },
+  gbp: { label: "GBP", symbol: "£", fiat: true },
+  jpy: { label: "JPY", symbol: "¥", fiat: true },
+  cny: { label: "CNY", symbol: "¥", fiat: true },
+  krw: { label: "KRW", symbol: "₩", fiat: true },
+  btc: { label: "BTC", symbol: "₿", fiat: false },
+  eth: { label: "ETH", symbol: "Ξ", fiat: false },
+}
+
+/**
+ * Currencies requested from TzKT through the `quote` parameter
+ */
+export const QUOTE_CURRENCIES: QuoteCurrency[] = ["btc", "eur", "usd", "cny", "jpy", "krw", "eth", "gbp"]
+
+/**
+ * Currencies offered by the currency switcher, in display order
+ */
+export const DISPLAY_CURRENCIES = Object.keys(CURRENCIES) as DisplayCurrency[]
+
+const STORAGE_KEY = "display_currency"
+
+/**
+ * Check whether a value is a supported display currency
+ */
+export function isDisplayCurrency(value: unknown): value is DisplayCurrency {
+  return typeof value === "string" && (DISPLAY_CURRENCIES as string[]).includes(value)
+}
+
+/**
+ * Human-readable name of a currency
+ */
+export function getCurrencyLabel(currency: DisplayCurrency): string {
+  return CURRENCIES[currency].label
+}
+
+/**
+ * Convert an amount in mutez with a price quote and format it
+ * @param amount - Amount in mutez
+ * @param quote - XTZ prices (e.g. from NetworkStats or a reward cycle)
+ * @param currency - Target currency
+ * @returns Formatted amount, or null for XTZ or when the quote lacks the currency
+ */
+export function formatQuote(amount: number, quote: Quote | undefined, currency: DisplayCurrency): string | null {
+  if (currency === "xtz") return null
+
+  const rate = quote?.[currency]
+  if (rate === undefined || rate === null) return null
+
+  const value = (amount / 1000000) * rate // Convert from mutez to XTZ, then to the currency
+  const info = CURRENCIES[currency]
+
+  if (info.fiat) {
+    // Whole units for large amounts and for currencies without minor units in practice
+    const digits = Math.abs(value) >= 1000 || currency === "jpy" || currency === "krw" ? 0 : 2
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(value)
+  }
+
+  return `${info.symbol}${new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: Math.abs(value) >= 1 ? 4 : 8,
+  }).format(value)}`
+}
+
+// ============ Active Currency State ============
+
+let activeCurrency: DisplayCurrency | null = null
+const listeners = new Set<() => void>()
+
+/**
+ * Get the currency balances are converted to
+ * Reads the persisted user choice on first access in the browser
+ */
+export function getDisplayCurrency(): DisplayCurrency {
+  if (!activeCurrency) {
+    activeCurrency = readStoredCurrency() ?? "xtz"
+  }
+  return activeCurrency
+}
+
+/**
+ * Change the display currency and notify subscribers
+ * @param currency - Currency to convert balances to
+ */
+export function setDisplayCurrency(currency: DisplayCurrency): void {
+  if (currency === getDisplayCurrency()) return
+
+  activeCurrency = currency
+  writeStoredCurrency(currency)
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Subscribe to display currency changes
+ * @param listener - Called after the currency changed
+ * @returns Unsubscribe function
+ */
+export function subscribeToDisplayCurrency(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// ============ Private Helpers ============
+
+function readStoredCurrency(): DisplayCurrency | null {
+  if (typeof window === "undefined") return null
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return isDisplayCurrency(stored) ? stored : null
+  } catch {
+    return null
+  }
+}
+
+function writeStoredCurrency(currency: DisplayCurrency): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, currency)
+  } catch {
+    // Ignore localStorage errors (private mode, quota exceeded, etc.)
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Tezos Address Validation
+ *
+ * Decodes and checksum-verifies Tezos account addresses without a network
+ * call, so typos are caught before anything is sent to TzKT:
+ * - Implicit accounts: tz1 (Ed25519), tz2 (secp256k1), tz3 (P-256), tz4 (BLS)
+ * - Originated accounts: KT1 (smart contracts, which cannot bake)
+ *
+ * An address is base58check-encoded: a 3-byte prefix, the 20-byte key hash
+ * and a 4-byte checksum (the first bytes of a double SHA-256). Invalid input
+ * comes with a reason and, when one can be found, corrected addresses for
+ * common copy-paste mistakes (surrounding text, look-alike characters, one
+ * character missing, extra, swapped or mistyped).
+ */
+
+// ============ Types ============
+
+export type AddressKind = "tz1" | "tz2" | "tz3" | "tz4" | "KT1"
+
+export type AddressProblem =
+  | "empty"        // Nothing entered
+  | "prefix"       // Does not start with tz1-tz4 or KT1
+  | "characters"   // Contains characters outside the base58 alphabet
+  | "length"       // Not 36 characters long
+  | "checksum"     // Well-formed, but the checksum does not match
+
+/**
+ * Result of validating user input as a Tezos address
+ */
+export type AddressValidation =
+  | { valid: true; address: string; kind: AddressKind }
+  | {
+      valid: false
+      problem: AddressProblem
+      message: string          // Readable explanation of the problem
+      suggestions: string[]    // Valid addresses the input was probably meant to be
+    }
+
+// ============ Constants ============
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz"
+
+// Prefix bytes of each address kind, followed by the key hash
+const PREFIX_BYTES: Record<AddressKind, number[]> = {
+  tz1: [6, 161, 159],
+  tz2: [6, 161, 161],
+  tz3: [6, 161, 164],
+  tz4: [6, 161, 166],
+  KT1: [2, 90, 121],
+}
+
+const ADDRESS_KINDS = Object.keys(PREFIX_BYTES) as AddressKind[]
+
+const ADDRESS_LENGTH = 36
+const HASH_LENGTH = 20
+const CHECKSUM_LENGTH = 4
+
+// Readable name of each address kind
+export const ADDRESS_KIND_LABELS: Record<AddressKind, string> = {
+  tz1: "Ed25519 account",
+  tz2: "secp256k1 account",
+  tz3: "P-256 account",
+  tz4: "BLS account",
+  KT1: "smart contract",
+}
+
+// Addresses inside pasted text (explorer URLs, labels, pasted twice), prefix in any case
+const EMBEDDED_ADDRESS = /(?:tz[1-4]|kt1)[1-9A-HJ-NP-Za-km-z]{33}/gi
+
+// Characters picked up when copying from web pages, chats or spreadsheets
+const PASTE_NOISE = /[\s\u200B-\u200D\u2060\uFEFF"'`<>()[\]{},;]/g
+
+// Look-alike characters outside the base58 alphabet, and what was probably meant
+const LOOK_ALIKES: Record<string, string[]> = {
+  "0": ["o"],
+  O: ["o"],
+  I: ["1", "i"],
+  l: ["1", "i"],
+}
+
+const MAX_SUGGESTIONS = 3
+
+// Longer input is not an address with a few typos
+const MAX_TYPO_INPUT_LENGTH = 40
+
+// ============ Public API ============
+
+/**
+ * Validate user input as a Tezos address
+ * Surrounding whitespace is ignored; anything else must be exact.
+ * @param input - Text entered or pasted by the user
+ * @returns The address and its kind, or the problem and suggested fixes
+ */
+export function validateAddress(input: string): AddressValidation {
+  const value = input.trim()
+  const kind = decodeAddress(value)
+
+  if (kind) {
+    return { valid: true, address: value, kind }
+  }
+
+  const { problem, message } = diagnose(value)
+  return { valid: false, problem, message, suggestions: problem === "empty" ? [] : suggestFixes(value) }
+}
+
+/**
+ * Whether a value is exactly a valid Tezos address (prefix, length and checksum)
+ */
+export function isValidAddress(value: string): boolean {
+  return decodeAddress(value) !== null
+}
+
+/**
+ * Whether addresses of this kind can be registered as bakers
+ * Only implicit accounts can bake; smart contracts (KT1) cannot.
+ */
+export function canBeBaker(kind: AddressKind): boolean {
+  return kind !== "KT1"
+}
+
+// ============ Private Helpers ============
+
+/**
+ * Decode and verify an address
+ * @returns The address kind, or null if the value is not a valid address
+ */
+function decodeAddress(value: string): AddressKind | null {
+  if (value.length !== ADDRESS_LENGTH) return null
+
+  const kind = ADDRESS_KINDS.find((prefix) => value.startsWith(prefix))
+  if (!kind) return null
+
+  const bytes = base58Decode(value)
+  const prefix = PREFIX_BYTES[kind]
+  if (!bytes || bytes.length !== prefix.length + HASH_LENGTH + CHECKSUM_LENGTH) return null
+  if (prefix.some((byte, index) => bytes[index] !== byte)) return null
+
+  const payload = bytes.subarray(0, bytes.length - CHECKSUM_LENGTH)
+  const checksum = sha256(sha256(payload))
+  for (let i = 0; i < CHECKSUM_LENGTH; i++) {
+    if (bytes[payload.length + i] !== checksum[i]) return null
+  }
+
+  return kind
+}
+
+/**
+ * Find the first problem of a value that is not a valid address
+ */
+function diagnose(value: string): { problem: AddressProblem; message: string } {
+  if (!value) {
+    return { problem: "empty", message: "Enter a Tezos address." }
+  }
+
+  if (!ADDRESS_KINDS.some((prefix) => value.startsWith(prefix))) {
+    return { problem: "prefix", message: "Tezos addresses start with tz1, tz2, tz3, tz4 or KT1." }
+  }
+
+  const invalid = Array.from(new Set(Array.from(value).filter((char) => !BASE58_ALPHABET.includes(char))))
+  if (invalid.length > 0) {
+    const names = invalid.map((char) => (/\s/.test(char) ? "spaces" : `"${char}"`))
+    return {
+      problem: "characters",
+      message: `Tezos addresses cannot contain ${names.join(", ")}. Base58 leaves out 0, O, I and l to avoid confusion.`,
+    }
+  }
+
+  if (value.length !== ADDRESS_LENGTH) {
+    return {
+      problem: "length",
+      message: `Tezos addresses are ${ADDRESS_LENGTH} characters long; this one has ${value.length}.`,
+    }
+  }
+
+  return {
+    problem: "checksum",
+    message: "This is not a valid Tezos address: its checksum does not match, so a character is probably mistyped.",
+  }
+}
+
+/**
+ * Valid addresses the input was probably meant to be, most likely first
+ * Every suggestion passes the checksum, so a random typo almost never
+ * produces a wrong one.
+ */
+function suggestFixes(input: string): string[] {
+  const suggestions = new Set<string>()
+  const add = (candidate: string) => {
+    if (candidate !== input && isValidAddress(candidate)) {
+      suggestions.add(candidate)
+    }
+  }
+
+  // An address inside pasted text, or with stray characters around it
+  for (const match of Array.from(input.matchAll(EMBEDDED_ADDRESS))) {
+    add(normalizePrefix(match[0]))
+  }
+  const cleaned = normalizePrefix(input.replace(PASTE_NOISE, ""))
+  add(cleaned)
+
+  // Typos are only looked for when the simple fixes found nothing
+  if (suggestions.size === 0 && cleaned.length <= MAX_TYPO_INPUT_LENGTH) {
+    for (const candidate of typoCandidates(cleaned)) {
+      add(candidate)
+      if (suggestions.size >= MAX_SUGGESTIONS) break
+    }
+  }
+
+  return Array.from(suggestions).slice(0, MAX_SUGGESTIONS)
+}
+
+/**
+ * Variants of a value with one likely typo fixed
+ * Look-alike characters first, then one character removed, added, swapped
+ * with its neighbour or replaced. The prefix is left as is.
+ */
+function* typoCandidates(value: string): Generator<string> {
+  const prefixLength = 3
+
+  for (const [char, replacements] of Object.entries(LOOK_ALIKES)) {
+    for (const replacement of replacements) {
+      yield value.split(char).join(replacement)
+    }
+  }
+  const lookAlikes = Object.keys(LOOK_ALIKES)
+  yield Array.from(value, (char) => (lookAlikes.includes(char) ? LOOK_ALIKES[char][0] : char)).join("")
+
+  if (value.length === ADDRESS_LENGTH + 1) {
+    for (let i = prefixLength; i < value.length; i++) {
+      yield value.slice(0, i) + value.slice(i + 1)
+    }
+  }
+
+  if (value.length === ADDRESS_LENGTH - 1) {
+    for (let i = prefixLength; i <= value.length; i++) {
+      for (const char of BASE58_ALPHABET) {
+        yield value.slice(0, i) + char + value.slice(i)
+      }
+    }
+  }
+
+  if (value.length === ADDRESS_LENGTH) {
+    for (let i = prefixLength; i < value.length - 1; i++) {
+      yield value.slice(0, i) + value[i + 1] + value[i] + value.slice(i + 2)
+    }
+    for (let i = prefixLength; i < value.length; i++) {
+      for (const char of BASE58_ALPHABET) {
+        if (char !== value[i]) {
+          yield value.slice(0, i) + char + value.slice(i + 1)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Fix the case of the prefix (e.g. "TZ1" or "kt1")
+ */
+function normalizePrefix(value: string): string {
+  return value.replace(/^(?:tz[1-4]|kt1)/i, (prefix) => (/^kt/i.test(prefix) ? "KT1" : prefix.toLowerCase()))
+}
+
+/**
+ * Decode a base58 string into bytes
+ * @returns The bytes, or null if the string contains non-base58 characters
+ */
+function base58Decode(value: string): Uint8Array | null {
+  // Little-endian while decoding
+  const bytes: number[] = []
+
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char)
+    if (carry < 0) return null
+
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58
+      bytes[i] = carry & 0xff
+      carry >>= 8
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff)
+      carry >>= 8
+    }
+  }
+
+  // Each leading "1" encodes a leading zero byte
+  for (const char of value) {
+    if (char !== "1") break
+    bytes.push(0)
+  }
+
+  return Uint8Array.from(bytes.reverse())
+}
+
+// ============ SHA-256 ============
+
+// Synchronous so addresses can be checked while rendering; Web Crypto is async only
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+])
+
+const SHA256_INITIAL = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]
+
+function sha256(data: Uint8Array): Uint8Array {
+  // Padding: a 1 bit, zeros, then the message length in bits (64-bit big-endian)
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64
+  const padded = new Uint8Array(paddedLength)
+  padded.set(data)
+  padded[data.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(paddedLength - 4, data.length * 8)
+
+  const hash = Uint32Array.from(SHA256_INITIAL)
+  const w = new Uint32Array(64)
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4)
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0
+      h = g
+      g = f
+      f = e
+      e = (d + t1) | 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) | 0
+    }
+
+    // Uint32Array stores the sums modulo 2^32
+    hash[0] += a
+    hash[1] += b
+    hash[2] += c
+    hash[3] += d
+    hash[4] += e
+    hash[5] += f
+    hash[6] += g
+    hash[7] += h
+  }
+
+  const digest = new Uint8Array(32)
+  const digestView = new DataView(digest.buffer)
+  hash.forEach((word, index) => digestView.setUint32(index * 4, word))
+  return digest
+}
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits))
+}
@@ -0,0 +1,216 @@
+/**
+ * Tezos Network Configuration
+ *
+ * This module defines which Tezos network the portal reads data from:
+ * - Mainnet and Ghostnet through the public TzKT indexers
+ * - A custom TzKT instance (private or local indexer)
+ *
+ * The default network comes from environment variables and can be
+ * overridden at runtime by the UI network switcher. The user's choice
+ * is persisted in localStorage so it survives page reloads.
+ *
+ * Environment variables:
+ * - NEXT_PUBLIC_TEZOS_NETWORK: Default network ("mainnet", "ghostnet" or "custom")
+ * - NEXT_PUBLIC_TZKT_CUSTOM_URL: Base URL of the custom TzKT indexer
+ * - NEXT_PUBLIC_TZKT_API_MODE: "direct" (browser calls TzKT) or "proxy" (through /api routes)
+ */
+
+/**
+ * Identifiers of the supported networks
+ */
+export type TezosNetworkId = "mainnet" | "ghostnet" | "custom"
+
+/**
+ * How the browser reaches TzKT and tez.cool
+ * - direct: every visitor calls the public APIs
+ * - proxy: calls go through the portal's /api routes and their shared server cache
+ */
+export type TzktApiMode = "direct" | "proxy"
+
+/**
+ * Describes a Tezos network and the TzKT indexer serving it
+ */
+export interface TezosNetwork {
+  id: TezosNetworkId       // Network identifier
+  label: string            // Human-readable name for the UI
+  tzktApiBase: string      // Base URL of the TzKT API (no trailing slash)
+  explorerUrl: string      // Base URL of the block explorer
+  cacheNamespace: string   // Prefix used to isolate cached data per network
+}
+
+const DEFAULT_CUSTOM_TZKT_URL = "http://localhost:5000"
+const STORAGE_KEY = "tezos_network"
+
+/**
+ * Public networks with fixed indexer URLs
+ */
+const PUBLIC_NETWORKS: Record<Exclude<TezosNetworkId, "custom">, Omit<TezosNetwork, "cacheNamespace">> = {
+  mainnet: {
+    id: "mainnet",
+    label: "Mainnet",
+    tzktApiBase: "https://api.tzkt.io",
+    explorerUrl: "https://tzkt.io",
+  },
+  ghostnet: {
+    id: "ghostnet",
+    label: "Ghostnet",
+    tzktApiBase: "https://api.ghostnet.tzkt.io",
+    explorerUrl: "https://ghostnet.tzkt.io",
+  },
+}
+
+/**
+ * Networks offered by the network switcher, in display order
+ */
+export const NETWORK_IDS: TezosNetworkId[] = ["mainnet", "ghostnet", "custom"]
+
+/**
+ * Check whether a value is a supported network identifier
+ */
+export function isTezosNetworkId(value: unknown): value is TezosNetworkId {
+  return typeof value === "string" && (NETWORK_IDS as string[]).includes(value)
+}
+
+/**
+ * Build the full network description for an identifier
+ * @param id - Network identifier
+ * @param customUrl - Indexer URL, only used for the custom network
+ * @returns Network description with its cache namespace
+ */
+export function resolveNetwork(id: TezosNetworkId, customUrl?: string): TezosNetwork {
+  if (id !== "custom") {
+    return { ...PUBLIC_NETWORKS[id], cacheNamespace: id }
+  }
+
+  const tzktApiBase = normalizeUrl(customUrl || DEFAULT_CUSTOM_TZKT_URL)
+
+  return {
+    id: "custom",
+    label: "Custom",
+    tzktApiBase,
+    explorerUrl: tzktApiBase,
+    // Include the host so two custom indexers never share cache entries
+    cacheNamespace: `custom@${hostOf(tzktApiBase)}`,
+  }
+}
+
+/**
+ * Public networks served by the /api proxy routes
+ * Custom indexers are never proxied: the server must not fetch arbitrary URLs
+ */
+export function isProxiedNetwork(id: TezosNetworkId): id is Exclude<TezosNetworkId, "custom"> {
+  return id !== "custom"
+}
+
+/**
+ * API mode configured through NEXT_PUBLIC_TZKT_API_MODE (default: direct)
+ */
+export function getTzktApiMode(): TzktApiMode {
+  return process.env.NEXT_PUBLIC_TZKT_API_MODE === "proxy" ? "proxy" : "direct"
+}
+
+/**
+ * Network configured through environment variables
+ * Used on the server and as the default before a user makes a choice
+ */
+export function getDefaultNetwork(): TezosNetwork {
+  const envNetwork = process.env.NEXT_PUBLIC_TEZOS_NETWORK
+  const id = isTezosNetworkId(envNetwork) ? envNetwork : "mainnet"
+  return resolveNetwork(id, process.env.NEXT_PUBLIC_TZKT_CUSTOM_URL)
+}
+
+// ============ Active Network State ============
+
+let activeNetwork: TezosNetwork | null = null
+const listeners = new Set<() => void>()
+
+/**
+ * Get the network currently used by the API client
+ * Reads the persisted user choice on first access in the browser
+ */
+export function getActiveNetwork(): TezosNetwork {
+  if (!activeNetwork) {
+    activeNetwork = readStoredNetwork() ?? getDefaultNetwork()
+  }
+  return activeNetwork
+}
+
+/**
+ * Switch the active network and notify subscribers
+ * @param id - Network to switch to
+ * @param customUrl - Indexer URL when switching to the custom network
+ */
+export function setActiveNetwork(id: TezosNetworkId, customUrl?: string): void {
+  const current = getActiveNetwork()
+  const fallbackUrl = current.id === "custom" ? current.tzktApiBase : process.env.NEXT_PUBLIC_TZKT_CUSTOM_URL
+  const next = resolveNetwork(id, id === "custom" ? customUrl || fallbackUrl : undefined)
+
+  if (next.cacheNamespace === current.cacheNamespace && next.tzktApiBase === current.tzktApiBase) {
+    return
+  }
+
+  activeNetwork = next
+  writeStoredNetwork(next)
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Subscribe to active network changes
+ * @param listener - Called after the active network changed
+ * @returns Unsubscribe function
+ */
+export function subscribeToNetwork(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Base URL of the TzKT API for the active network
+ */
+export function getTzktApiBase(): string {
+  return getActiveNetwork().tzktApiBase
+}
+
+// ============ Private Helpers ============
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "")
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+function readStoredNetwork(): TezosNetwork | null {
+  if (typeof window === "undefined") return null
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return null
+
+    const parsed = JSON.parse(stored)
+    return isTezosNetworkId(parsed?.id) ? resolveNetwork(parsed.id, parsed.customUrl) : null
+  } catch {
+    return null
+  }
+}
+
+function writeStoredNetwork(network: TezosNetwork): void {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        id: network.id,
+        customUrl: network.id === "custom" ? network.tzktApiBase : undefined,
+      }),
+    )
+  } catch {
+    // Ignore localStorage errors (private mode, quota exceeded, etc.)
+  }
+}
@@ -9,14 +9,39 @@
  * 
  * All functions use the cache manager with predefined strategies
  * optimized for each data type's update frequency.
+ * Requests target the TzKT indexer of the active Tezos network, either
+ * directly or through the portal's /api proxy (NEXT_PUBLIC_TZKT_API_MODE).
+ *
+ * Every public function accepts an optional `AbortSignal`. Aborting it
+ * rejects that call with an "AbortError"; the network request itself is
+ * cancelled only when no other caller is waiting on the same cache key.
  */
 
-import { cacheManager, CacheStrategies, CacheKeys } from "./cache-manager"
+import { cacheManager, CacheStrategies, CacheKeys, CacheTags, type CacheOptions } from "./cache-manager"
+import { cacheFamilyOf } from "./cache-versions"
+import { getActiveNetwork, getTzktApiMode, isProxiedNetwork } from "./tezos-network"
+import { fetchJsonWithRetry, isAbortError, isUpstreamFailure, TzktApiError } from "./tzkt-fetch"
+import { estimateApy } from "./apy-providers"
+import { QUOTE_CURRENCIES } from "./currency"
+import {
+  validateResponse,
+  NetworkStatsSchema,
+  CycleListSchema,
+  ProtocolSchema,
+  BakerSchema,
+  BakerListSchema,
+  BakerRewardsListSchema,
+  type ResponseSchema,
+} from "./tzkt-schemas"
 import {
   type NetworkStats,
   type Cycle,
+  type Protocol,
+  type StakingConstants,
   type Baker,
   type BakerRewards,
+  type BakersStats,
+  resolveStakingConstants,
   formatXTZ,
   formatPercentage,
   formatAddress,
@@ -24,37 +49,89 @@ import {
 } from "./tzkt-api"
 
 // Re-export types and helpers for convenience
-export type { NetworkStats, Cycle, Baker, BakerRewards }
-export { formatXTZ, formatPercentage, formatAddress, calculateEstimatedApy }
+export type { NetworkStats, Cycle, Protocol, StakingConstants, Baker, BakerRewards, BakersStats }
+export { formatXTZ, formatPercentage, formatAddress, calculateEstimatedApy, TzktApiError }
+
+/**
+ * Error raised when an address is not registered as a baker
+ * The address itself is valid: it has never registered, or is a smart contract
+ */
+export class BakerNotFoundError extends TzktApiError {
+  readonly address: string
 
-const TZKT_API_BASE = "https://api.tzkt.io"
+  constructor(address: string, endpoint: string) {
+    super(`${address} is not a registered baker (${endpoint})`, { status: 404, endpoint, retryable: false })
+    this.name = "BakerNotFoundError"
+    this.address = address
+  }
+
+  get userMessage(): string {
+    return `${formatAddress(this.address)} is a valid Tezos address, but not a registered baker.`
+  }
+}
 
 /**
  * Generic function to fetch data from TzKT API with caching
  * @param endpoint - API endpoint path
  * @param cacheKey - Unique cache key
  * @param cacheStrategy - Caching strategy to use
+ * @param schema - Runtime schema the response must match
+ * @param signal - Optional signal to cancel the request
  * @returns Cached or freshly fetched data
  */
 async function cachedTzktFetch<T>(
   endpoint: string,
   cacheKey: string,
-  cacheStrategy: (typeof CacheStrategies)[keyof typeof CacheStrategies],
+  cacheStrategy: CacheOptions,
+  schema: ResponseSchema,
+  signal?: AbortSignal,
+): Promise<T> {
+  return cachedLoad<T>(
+    endpoint,
+    cacheKey,
+    cacheStrategy,
+    (sharedSignal) => fetchTzktJson<T>(endpoint, schema, sharedSignal),
+    signal,
+  )
+}
+
+/**
+ * Serve data from cache, or load and cache it
+ * Shared by single-endpoint fetches and aggregates built from several requests
+ * @param label - Description of the data, used in logs
+ * @param cacheKey - Unique cache key
+ * @param cacheStrategy - Caching strategy to use
+ * @param loader - Async function producing fresh data, given the shared request signal
+ * @param signal - Optional signal to cancel this caller's request
+ * @returns Cached or freshly loaded data
+ */
+async function cachedLoad<T>(
+  label: string,
+  cacheKey: string,
+  cacheStrategy: CacheOptions,
+  loader: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
 ): Promise<T> {
+  // Entries persisted to IndexedDB are only in memory once loaded
+  await cacheManager.restore(cacheKey, cacheStrategy)
+
   // Try to get from cache first
   const cached = cacheManager.get<T>(cacheKey, cacheStrategy)
 
   if (cached) {
-    cacheManager.recordHit()
+    cacheManager.recordHit(cacheKey)
 
     // If using stale-while-revalidate, trigger background update if data is stale
     if (cacheStrategy.staleWhileRevalidate) {
-      // Check if data is expired
-      const entry = (cacheManager as any).cache.get(cacheKey)
-      if (entry && Date.now() - entry.timestamp > entry.ttl) {
-        // Background update (don't wait for it)
-        fetchAndCache<T>(endpoint, cacheKey, cacheStrategy).catch(() => {
-          // Silently ignore background update errors
+      const entry = cacheManager.peek<T>(cacheKey, cacheStrategy)
+      if (entry && cacheManager.isStale(entry)) {
+        cacheManager.recordStaleServe(cacheKey)
+        cacheManager.recordRevalidation(cacheKey)
+        // Background update (don't wait for it); the stale data stays in place on failure.
+        // It is not tied to the caller's signal, since the caller already has its data.
+        fetchAndCache<T>(cacheKey, cacheStrategy, loader).catch((error) => {
+          console.warn(`Background revalidation failed for ${label}:`, error)
+          cacheManager.recordFailure(cacheKey, error)
         })
       }
     }
@@ -62,74 +139,270 @@ async function cachedTzktFetch<T>(
     return cached
   }
 
-  cacheManager.recordMiss()
-  return fetchAndCache<T>(endpoint, cacheKey, cacheStrategy)
+  cacheManager.recordMiss(cacheKey)
+
+  try {
+    return await fetchAndCache<T>(cacheKey, cacheStrategy, loader, signal)
+  } catch (error) {
+    // Serve expired data rather than nothing while the upstream is failing
+    const stale = cacheManager.peek<T>(cacheKey, cacheStrategy)
+    if (stale && isUpstreamFailure(error)) {
+      console.warn(`Serving stale data for ${label}:`, error)
+      cacheManager.recordStaleServe(cacheKey)
+      cacheManager.recordFailure(cacheKey, error)
+      return stale.data
+    }
+    throw error
+  }
 }
 
 /**
- * Fetch data from TzKT API and cache it
- * @param endpoint - API endpoint path
+ * Load data and cache it
+ * Concurrent calls for the same cache key share one request and one cache write
+ * Loaders validate responses, so malformed data is rejected and never cached
  * @param cacheKey - Unique cache key
  * @param cacheStrategy - Caching strategy to use
+ * @param loader - Async function producing fresh data, given the shared request signal
+ * @param signal - Optional signal to cancel this caller's request
  * @returns Fetched data
- * @throws Error if API request fails
+ * @throws TzktApiError if API request fails or the response is malformed
  */
 async function fetchAndCache<T>(
-  endpoint: string,
   cacheKey: string,
-  cacheStrategy: (typeof CacheStrategies)[keyof typeof CacheStrategies],
+  cacheStrategy: CacheOptions,
+  loader: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
 ): Promise<T> {
-  const response = await fetch(`${TZKT_API_BASE}${endpoint}`)
-  if (!response.ok) {
-    throw new Error(`TzKT API error: ${response.status} ${response.statusText}`)
+  return cacheManager.dedupe(
+    cacheKey,
+    async (sharedSignal) => {
+      const data = await timedLoad(cacheKey, sharedSignal, loader)
+      // A cancelled load never reaches the cache
+      if (!sharedSignal.aborted) {
+        cacheManager.set(cacheKey, data, cacheStrategy)
+      }
+      return data
+    },
+    signal,
+  )
+}
+
+/**
+ * Fetch, parse and validate a TzKT API endpoint without caching
+ * Transient failures and rate limits are retried with backoff
+ * @param endpoint - API endpoint path
+ * @param schema - Runtime schema the response must match
+ * @param signal - Optional signal to cancel the request
+ * @returns Parsed and validated JSON response
+ * @throws TzktApiError if API request fails or the response is malformed
+ */
+async function fetchTzktJson<T>(endpoint: string, schema: ResponseSchema, signal?: AbortSignal): Promise<T> {
+  const data = await fetchJsonWithRetry<unknown>(tzktUrl(endpoint), endpoint, {}, signal)
+  return validateResponse<T>(schema, data, endpoint)
+}
+
+/**
+ * Run a load and record its duration and outcome in the cache metrics
+ * Cancelled loads are not recorded
+ * @param cacheKey - Cache key the data is loaded for
+ * @param signal - Shared request signal
+ * @param load - Async function producing fresh data
+ * @returns Loaded data
+ */
+async function timedLoad<T>(cacheKey: string, signal: AbortSignal, load: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const startedAt = performance.now()
+  try {
+    const data = await load(signal)
+    cacheManager.recordLoad(cacheKey, performance.now() - startedAt, true)
+    return data
+  } catch (error) {
+    if (!signal.aborted) {
+      cacheManager.recordLoad(cacheKey, performance.now() - startedAt, false)
+    }
+    throw error
+  }
+}
+
+// Proxy routes mirroring the TzKT paths (see app/api)
+const TZKT_PROXY_BASE = "/api/tzkt"
+
+/**
+ * Resolve the URL of a TzKT endpoint for the active network
+ * In proxy mode, public networks go through the shared server cache;
+ * custom indexers are always called directly
+ * @param endpoint - API endpoint path
+ */
+export function tzktUrl(endpoint: string): string {
+  const network = getActiveNetwork()
+
+  if (getTzktApiMode() === "proxy" && isProxiedNetwork(network.id)) {
+    const separator = endpoint.includes("?") ? "&" : "?"
+    return `${TZKT_PROXY_BASE}${endpoint}${separator}network=${network.id}`
   }
 
-  const data = await response.json()
-  cacheManager.set(cacheKey, data, cacheStrategy)
-  return data
+  return `${network.tzktApiBase}${endpoint}`
 }
 
+// Prices injected into responses, for the currency conversions (see currency.ts)
+const QUOTE_PARAM = `quote=${QUOTE_CURRENCIES.join(",")}`
+
+/**
+ * TzKT endpoints shared by the public functions and the preloader
+ */
+const Endpoints = {
+  networkStats: () => `/v1/statistics/current?${QUOTE_PARAM}`,
+  currentCycle: () => `/v1/cycles?sort.desc=index&limit=1&${QUOTE_PARAM}`,
+  currentProtocol: () => "/v1/protocols/current",
+  activeBakers: (limit: number) => `/v1/delegates?active=true&sort.desc=stakingBalance&limit=${limit}`,
+  activeBakersPage: (offset: number, limit: number) =>
+    `/v1/delegates?active=true&sort.desc=stakingBalance&offset=${offset}&limit=${limit}`,
+  bakerDetails: (address: string) => `/v1/delegates/${address}`,
+  bakerRewards: (address: string, fromCycle: number, limit: number) =>
+    `/v1/rewards/delegates/${address}?cycle.ge=${fromCycle}&sort.desc=cycle&limit=${limit}&${QUOTE_PARAM}`,
+  bakerRewardsRange: (address: string, fromCycle: number, toCycle: number) =>
+    `/v1/rewards/delegates/${address}?cycle.ge=${fromCycle}&cycle.le=${toCycle}&sort.desc=cycle&limit=${toCycle - fromCycle + 1}&${QUOTE_PARAM}`,
+} as const
+
 // ============ Public API Functions ============
 
 /**
  * Get current network statistics
  * Cached for 5 minutes with localStorage persistence
+ * @param signal - Optional signal to cancel the request
  * @returns Network statistics object
  */
-export async function getNetworkStats(): Promise<NetworkStats> {
+export async function getNetworkStats(signal?: AbortSignal): Promise<NetworkStats> {
   return cachedTzktFetch<NetworkStats>(
-    "/v1/statistics/current",
+    Endpoints.networkStats(),
     CacheKeys.networkStats(),
     CacheStrategies.NETWORK_STATS,
+    NetworkStatsSchema,
+    signal,
   )
 }
 
 /**
  * Get current cycle information
  * Cached for 5 minutes with localStorage persistence
+ * @param signal - Optional signal to cancel the request
  * @returns Current cycle object
  */
-export async function getCurrentCycle(): Promise<Cycle> {
+export async function getCurrentCycle(signal?: AbortSignal): Promise<Cycle> {
   // TzKT API returns cycles in descending order by default, so [0] is the current/latest cycle
   const cycles = await cachedTzktFetch<Cycle[]>(
-    "/v1/cycles?sort.desc=index&limit=1",
+    Endpoints.currentCycle(),
     CacheKeys.currentCycle(),
     CacheStrategies.NETWORK_STATS,
+    CycleListSchema,
+    signal,
   )
   return cycles[0]
 }
 
+/**
+ * Get the protocol active on the network, with its constants
+ * Cached for 5 minutes with localStorage persistence
+ * @param signal - Optional signal to cancel the request
+ * @returns Current protocol object
+ */
+export async function getCurrentProtocol(signal?: AbortSignal): Promise<Protocol> {
+  return cachedTzktFetch<Protocol>(
+    Endpoints.currentProtocol(),
+    CacheKeys.currentProtocol(),
+    CacheStrategies.NETWORK_STATS,
+    ProtocolSchema,
+    signal,
+  )
+}
+
+/**
+ * Get the constants for the staking calculations of the active network
+ * Taken from the current protocol; never throws for TzKT failures:
+ * missing constants are replaced by mainnet values, flagged as fallback
+ * @param signal - Optional signal to cancel the request
+ * @returns Complete set of constants
+ */
+export async function getStakingConstants(signal?: AbortSignal): Promise<StakingConstants> {
+  try {
+    return resolveStakingConstants(await getCurrentProtocol(signal))
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error
+    }
+    console.warn("Protocol constants unavailable, using mainnet values:", error)
+    return resolveStakingConstants(null)
+  }
+}
+
 /**
  * Get list of active bakers sorted by staking balance
  * Cached for 10 minutes with localStorage persistence
  * @param limit - Number of bakers to return (default: 50)
+ * @param signal - Optional signal to cancel the request
  * @returns Array of baker objects
  */
-export async function getActiveBakers(limit = 50): Promise<Baker[]> {
+export async function getActiveBakers(limit = 50, signal?: AbortSignal): Promise<Baker[]> {
   return cachedTzktFetch<Baker[]>(
-    `/v1/delegates?active=true&sort.desc=stakingBalance&limit=${limit}`,
+    Endpoints.activeBakers(limit),
     CacheKeys.activeBakers(limit),
     CacheStrategies.BAKERS_LIST,
+    BakerListSchema,
+    signal,
+  )
+}
+
+/**
+ * Iterate over every active baker, one page at a time
+ * Pages are requested lazily with offset paging, sorted by staking balance.
+ * Offset paging is not stable while balances change: a baker moving down
+ * across a page boundary is dropped as a duplicate, but one moving up
+ * across it is missed for this iteration.
+ * Pages are not cached individually; use getAllActiveBakers for a cached set.
+ * @param pageSize - Number of bakers per request (default: 200)
+ * @param signal - Optional signal to cancel the remaining page requests
+ * @yields Arrays of baker objects, in descending staking balance order
+ */
+export async function* iterateActiveBakers(pageSize = 200, signal?: AbortSignal): AsyncGenerator<Baker[]> {
+  const seen = new Set<string>()
+
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await fetchTzktJson<Baker[]>(Endpoints.activeBakersPage(offset, pageSize), BakerListSchema, signal)
+    const fresh = page.filter((baker) => !seen.has(baker.address))
+    fresh.forEach((baker) => seen.add(baker.address))
+
+    if (fresh.length > 0) {
+      yield fresh
+    }
+
+    // A short page means we reached the end of the list
+    if (page.length < pageSize) {
+      return
+    }
+  }
+}
+
+/**
+ * Get the complete set of active bakers
+ * Loads every page through iterateActiveBakers and caches the aggregate,
+ * for leaderboards and network-wide (e.g. decentralization) metrics.
+ * A baker changing page during the load can be missing until the next load.
+ * Cached for 30 minutes with localStorage persistence
+ * @param signal - Optional signal to cancel the request
+ * @returns Array of all active bakers sorted by staking balance
+ */
+export async function getAllActiveBakers(signal?: AbortSignal): Promise<Baker[]> {
+  return cachedLoad<Baker[]>(
+    "all active bakers",
+    CacheKeys.allActiveBakers(),
+    CacheStrategies.ALL_BAKERS,
+    async (sharedSignal) => {
+      const bakers: Baker[] = []
+      for await (const page of iterateActiveBakers(200, sharedSignal)) {
+        bakers.push(...page)
+      }
+      return bakers
+    },
+    signal,
   )
 }
 
@@ -137,136 +410,242 @@ export async function getActiveBakers(limit = 50): Promise<Baker[]> {
  * Get detailed information about a specific baker
  * Cached for 2 minutes (no localStorage persistence)
  * @param address - Baker's Tezos address
+ * @param signal - Optional signal to cancel the request
  * @returns Baker object with full details
+ * @throws BakerNotFoundError if TzKT has no baker with this address
  */
-export async function getBakerDetails(address: string): Promise<Baker> {
-  return cachedTzktFetch<Baker>(
-    `/v1/delegates/${address}`,
-    CacheKeys.bakerDetails(address),
-    CacheStrategies.BAKER_DETAILS,
-  )
+export async function getBakerDetails(address: string, signal?: AbortSignal): Promise<Baker> {
+  try {
+    return await cachedTzktFetch<Baker>(
+      Endpoints.bakerDetails(address),
+      CacheKeys.bakerDetails(address),
+      { ...CacheStrategies.BAKER_DETAILS, tags: [CacheTags.baker(address)] },
+      BakerSchema,
+      signal,
+    )
+  } catch (error) {
+    if (error instanceof TzktApiError && error.status === 404) {
+      throw new BakerNotFoundError(address, error.endpoint)
+    }
+    throw error
+  }
 }
 
 /**
  * Get reward history for a specific baker
- * Cached for 30 minutes with localStorage persistence
+ * Rewards of the current and upcoming cycles change with every block and are
+ * cached until the next block. Completed cycles never change: they are kept
+ * indefinitely with IndexedDB persistence, and only cycles missing from the
+ * cache are fetched.
  * @param address - Baker's Tezos address
  * @param limit - Number of cycles to return (default: 10)
- * @returns Array of reward objects, one per cycle
+ * @param signal - Optional signal to cancel the request
+ * @returns Array of reward objects, one per cycle, newest first
  */
-export async function getBakerRewards(address: string, limit = 10): Promise<BakerRewards[]> {
-  return cachedTzktFetch<BakerRewards[]>(
-    `/v1/rewards/delegates/${address}?limit=${limit}`,
+export async function getBakerRewards(address: string, limit = 10, signal?: AbortSignal): Promise<BakerRewards[]> {
+  const cycle = await getCurrentCycle(signal)
+
+  const live = await cachedTzktFetch<BakerRewards[]>(
+    Endpoints.bakerRewards(address, cycle.index, limit),
     CacheKeys.bakerRewards(address, limit),
-    CacheStrategies.BAKER_REWARDS,
+    {
+      ...CacheStrategies.BAKER_REWARDS,
+      ...nextBlockExpiry(cycle),
+      tags: [CacheTags.baker(address), CacheTags.cycle(cycle.index)],
+    },
+    BakerRewardsListSchema,
+    signal,
   )
+
+  // Older cycles come from the finalized history; below the oldest live record
+  // in case the live entry was fetched before the current cycle started
+  const oldestLive = live.length > 0 ? live[live.length - 1].cycle : cycle.index
+  const toCycle = Math.min(oldestLive, cycle.index) - 1
+  const fromCycle = Math.max(0, toCycle - (limit - live.length) + 1)
+
+  if (live.length >= limit || toCycle < fromCycle) {
+    return live.slice(0, limit)
+  }
+
+  const finalized = await getFinalizedRewards(address, fromCycle, toCycle, signal)
+  return [...live, ...finalized]
 }
 
 /**
- * Get aggregated statistics about all bakers
- * Calculates total bakers, active bakers, total staking, and APY
- * APY is calculated from on-chain data without external APIs
- * Cached for 1 minute (no localStorage persistence)
- * @returns Object containing aggregated baker statistics
+ * Get the rewards of a baker over a range of completed cycles, for charts
+ * Served from the finalized history, so ranges already seen cost no request
+ * @param address - Baker's Tezos address
+ * @param fromCycle - First cycle (inclusive)
+ * @param toCycle - Last cycle (inclusive); cycles from the current one onwards are left out
+ * @param signal - Optional signal to cancel the request
+ * @returns Records of the completed cycles in the range, newest first
  */
-export async function getBakersStats(): Promise<{
-  totalBakers: number
-  activeBakers: number
-  totalStaking: number
-  averageApy: number
-  stakingApy: number
-  delegationApy: number
-}> {
-  const cacheKey = CacheKeys.bakersStats()
-  const cached = cacheManager.get<{
-    totalBakers: number
-    activeBakers: number
-    totalStaking: number
-    averageApy: number
-    stakingApy: number
-    delegationApy: number
-  }>(cacheKey, CacheStrategies.GLOBAL_STATS)
+export async function getBakerRewardsRange(
+  address: string,
+  fromCycle: number,
+  toCycle: number,
+  signal?: AbortSignal,
+): Promise<BakerRewards[]> {
+  const cycle = await getCurrentCycle(signal)
 
-  if (cached) {
-    cacheManager.recordHit()
-    return cached
+  const lastCompleted = Math.min(toCycle, cycle.index - 1)
+  const first = Math.max(0, fromCycle)
+  if (lastCompleted < first) {
+    return []
   }
 
-  cacheManager.recordMiss()
+  return getFinalizedRewards(address, first, lastCompleted, signal)
+}
 
-  try {
-    // ========== Step 1: Fetch APY data from tez.cool API ==========
-    // tez.cool provides accurate, community-trusted APY calculations
-    // using comprehensive network data from TzKT
-    const tezCoolResponse = await fetch("https://tez.cool/api/v1/getData")
-    const tezCoolData = await tezCoolResponse.json()
-    const stakingData = tezCoolData?.homeData?.stakingData
-    
-    // Extract APY values (only APY, rest from TzKT)
-    const stakingApy = stakingData?.stakingApy || 9.73 // Fallback to typical value
-    const delegationApy = stakingData?.delegationApy || 3.24 // Fallback to typical value
-    
-    // ========== Step 2: Get network data from TzKT ==========
-    const [cycle, stats] = await Promise.all([getCurrentCycle(), getNetworkStats()])
-    
-    // Use totalFrozen from TzKT statistics
-    // This represents the real staked XTZ (frozen in Proof-of-Stake)
-    const totalStaking = stats.totalFrozen
-    
-    // ========== Step 3: Return aggregated statistics ==========
-    const result = {
-      totalBakers: cycle.totalBakers, // Total number of active bakers in current cycle
-      activeBakers: cycle.totalBakers, // Active bakers
-      totalStaking: totalStaking, // Total XTZ in PoS from TzKT (in mutez)
-      averageApy: stakingApy, // Use staking APY as average
-      stakingApy: stakingApy, // APY for active bakers (~9.73%)
-      delegationApy: delegationApy, // APY for delegators (~3.24%)
-    }
+/**
+ * Get the rewards of completed cycles from the cached history of a baker
+ * The history covers a contiguous range of cycles; requests next to or
+ * overlapping it only fetch the missing cycles and extend it
+ * @param address - Baker's Tezos address
+ * @param fromCycle - First cycle (inclusive)
+ * @param toCycle - Last cycle (inclusive), before the current cycle
+ * @param signal - Optional signal to cancel the request
+ * @returns Records of the cycles in the range, newest first
+ */
+async function getFinalizedRewards(
+  address: string,
+  fromCycle: number,
+  toCycle: number,
+  signal?: AbortSignal,
+): Promise<BakerRewards[]> {
+  const cacheKey = CacheKeys.finalizedRewards(address)
+  const strategy: CacheOptions = {
+    ...CacheStrategies.FINALIZED_REWARDS,
+    tags: [CacheTags.baker(address), CacheTags.finalized()],
+  }
+  await cacheManager.restore(cacheKey, strategy)
 
-    // Cache the result for 1 minute to reduce API calls
-    cacheManager.set(cacheKey, result, CacheStrategies.GLOBAL_STATS)
-    return result
-  } catch (error) {
-    console.error("Error calculating APY:", error)
-    
-    // ========== Fallback: Use default values if calculation fails ==========
-    const cycle = await getCurrentCycle()
-    
-    const result = {
-      totalBakers: cycle.totalBakers,
-      activeBakers: cycle.totalBakers,
-      totalStaking: cycle.totalBakingPower,
-      averageApy: 9.73, // Typical staking APY
-      stakingApy: 9.73, // Default staking APY
-      delegationApy: 3.24, // Default delegation APY
-    }
+  // A history that neither overlaps nor touches the range is replaced
+  const cached = cacheManager.get<FinalizedRewards>(cacheKey, strategy)
+  const base = cached && fromCycle <= cached.to + 1 && toCycle >= cached.from - 1 ? cached : null
 
-    cacheManager.set(cacheKey, result, CacheStrategies.GLOBAL_STATS)
-    return result
+  const missing: Array<[number, number]> = []
+  if (!base) {
+    missing.push([fromCycle, toCycle])
+  } else {
+    if (toCycle > base.to) missing.push([base.to + 1, toCycle])
+    if (fromCycle < base.from) missing.push([fromCycle, base.from - 1])
   }
+
+  if (base && missing.length === 0) {
+    cacheManager.recordHit(cacheKey)
+    return rewardsInRange(base.rewards, fromCycle, toCycle)
+  }
+
+  cacheManager.recordMiss(cacheKey)
+
+  const history = await cacheManager.dedupe(
+    `${cacheKey}:${fromCycle}-${toCycle}`,
+    async (sharedSignal) => {
+      const fetched = await timedLoad(cacheKey, sharedSignal, () =>
+        Promise.all(
+          missing.map(([from, to]) =>
+            fetchTzktJson<BakerRewards[]>(Endpoints.bakerRewardsRange(address, from, to), BakerRewardsListSchema, sharedSignal),
+          ),
+        ),
+      )
+
+      // One record per cycle, newest first
+      const byCycle = new Map<number, BakerRewards>()
+      for (const rewards of [...(base?.rewards ?? []), ...fetched.flat()]) {
+        byCycle.set(rewards.cycle, rewards)
+      }
+
+      const extended: FinalizedRewards = {
+        from: Math.min(fromCycle, base?.from ?? fromCycle),
+        to: Math.max(toCycle, base?.to ?? toCycle),
+        rewards: Array.from(byCycle.values()).sort((a, b) => b.cycle - a.cycle),
+      }
+
+      // A cancelled load never reaches the cache
+      if (!sharedSignal.aborted) {
+        cacheManager.set(cacheKey, extended, strategy)
+      }
+      return extended
+    },
+    signal,
+  )
+
+  return rewardsInRange(history.rewards, fromCycle, toCycle)
+}
+
+/**
+ * Get aggregated statistics about all bakers
+ * Calculates total bakers, active bakers, total staking, and APY
+ * APY comes from the configured providers (on-chain data by default, see apy-providers.ts)
+ * Cached for 1 minute (no localStorage persistence), then served while revalidated
+ * @param signal - Optional signal to cancel the request
+ * @returns Object containing aggregated baker statistics and the APY source
+ */
+export async function getBakersStats(signal?: AbortSignal): Promise<BakersStats> {
+  // Tagged with the cycle, so the stats are dropped when it ends
+  const currentCycle = await getCurrentCycle(signal)
+
+  return cachedLoad(
+    "bakers stats",
+    CacheKeys.bakersStats(),
+    { ...CacheStrategies.GLOBAL_STATS, tags: [CacheTags.cycle(currentCycle.index)] },
+    async (sharedSignal) => {
+      // ========== Step 1: Get network data from TzKT ==========
+      const [cycle, stats, constants] = await Promise.all([
+        getCurrentCycle(sharedSignal),
+        getNetworkStats(sharedSignal),
+        getStakingConstants(sharedSignal),
+      ])
+
+      // ========== Step 2: Estimate APY with the configured providers ==========
+      // Never throws for provider failures: typical values are flagged as fallback instead
+      const apy = await estimateApy({ cycle, constants, signal: sharedSignal })
+
+      // ========== Step 3: Return aggregated statistics ==========
+      return {
+        totalBakers: cycle.totalBakers, // Total number of active bakers in current cycle
+        activeBakers: cycle.totalBakers, // Active bakers
+        // Use totalFrozen from TzKT statistics
+        // This represents the real staked XTZ (frozen in Proof-of-Stake)
+        totalStaking: stats.totalFrozen,
+        averageApy: apy.stakingApy, // Use staking APY as average
+        stakingApy: apy.stakingApy, // APY for staked funds
+        delegationApy: apy.delegationApy, // APY for delegated funds
+        apySource: apy.source,
+      }
+    },
+    signal,
+  )
 }
 
 /**
  * Preload critical data into cache on app initialization
  * Fetches network stats, current cycle, and top bakers in parallel
+ * Shares in-flight requests with hooks mounting at the same time
  * Useful for improving initial page load performance
+ * @param signal - Optional signal to cancel the preload
  */
-export async function preloadCriticalData(): Promise<void> {
+export async function preloadCriticalData(signal?: AbortSignal): Promise<void> {
   const promises = [
     cacheManager.preload(
       CacheKeys.networkStats(),
-      () => fetch(`${TZKT_API_BASE}/v1/statistics/current`).then((r) => r.json()),
+      (sharedSignal) => fetchTzktJson<NetworkStats>(Endpoints.networkStats(), NetworkStatsSchema, sharedSignal),
       CacheStrategies.NETWORK_STATS,
+      signal,
     ),
+    // Cached as an array, the same shape getCurrentCycle stores
     cacheManager.preload(
       CacheKeys.currentCycle(),
-      () => fetch(`${TZKT_API_BASE}/v1/cycles?sort.desc=index&limit=1`).then((r) => r.json()).then((cycles) => cycles[0]),
+      (sharedSignal) => fetchTzktJson<Cycle[]>(Endpoints.currentCycle(), CycleListSchema, sharedSignal),
       CacheStrategies.NETWORK_STATS,
+      signal,
     ),
     cacheManager.preload(
       CacheKeys.activeBakers(50),
-      () => fetch(`${TZKT_API_BASE}/v1/delegates?active=true&sort.desc=stakingBalance&limit=50`).then((r) => r.json()),
+      (sharedSignal) => fetchTzktJson<Baker[]>(Endpoints.activeBakers(50), BakerListSchema, sharedSignal),
       CacheStrategies.BAKERS_LIST,
+      signal,
     ),
   ]
 
@@ -277,11 +656,11 @@ export async function preloadCriticalData(): Promise<void> {
 
 /**
  * Invalidate all cached data for a specific baker
+ * The finalized reward history is kept: completed cycles never change
  * @param address - Baker's Tezos address
  */
 export function invalidateBakerCache(address: string): void {
-  cacheManager.invalidate(CacheKeys.bakerDetails(address))
-  cacheManager.invalidatePattern(`baker_rewards_${address}_.*`)
+  cacheManager.invalidateTag(CacheTags.baker(address), CacheTags.finalized())
 }
 
 /**
@@ -289,7 +668,145 @@ export function invalidateBakerCache(address: string): void {
  * Useful when you want to force a refresh of all network stats
  */
 export function invalidateNetworkCache(): void {
-  cacheManager.invalidate(CacheKeys.networkStats())
-  cacheManager.invalidate(CacheKeys.currentCycle())
-  cacheManager.invalidate(CacheKeys.bakersStats())
+  cacheManager.invalidateTag(CacheTags.type("network_stats"))
+  cacheManager.invalidateTag(CacheTags.type("current_cycle"))
+  cacheManager.invalidateTag(CacheTags.type("current_protocol"))
+  cacheManager.invalidateTag(CacheTags.type("bakers_stats"))
+}
+
+/**
+ * Invalidate every cached baker list, the complete active set included
+ */
+export function invalidateBakerListCache(): void {
+  cacheManager.invalidateTag(CacheTags.type("active_bakers"))
+}
+
+/**
+ * Invalidate everything derived from a cycle (aggregates, current-cycle rewards)
+ * Called once a newer cycle has started; protocol upgrades happen at cycle starts too
+ * @param cycle - Index of the outdated cycle
+ */
+export function invalidateCycleCache(cycle: number): void {
+  cacheManager.invalidateTag(CacheTags.type("current_cycle"))
+  cacheManager.invalidateTag(CacheTags.type("current_protocol"))
+  cacheManager.invalidateTag(CacheTags.cycle(cycle))
+}
+
+// ============ Diagnostics ============
+
+// Caching strategy of each key family written by this module
+const FAMILY_STRATEGIES: Record<string, keyof typeof CacheStrategies> = {
+  network_stats: "NETWORK_STATS",
+  current_cycle: "NETWORK_STATS",
+  current_protocol: "NETWORK_STATS",
+  active_bakers: "BAKERS_LIST",
+  baker_details: "BAKER_DETAILS",
+  baker_rewards: "BAKER_REWARDS",
+  finalized_rewards: "FINALIZED_REWARDS",
+  bakers_stats: "GLOBAL_STATS",
+}
+
+/**
+ * Name of the caching strategy a cache key is written with (e.g. "NETWORK_STATS")
+ * @param key - Cache key of any network
+ * @returns Strategy name, or null for keys this module doesn't write
+ */
+export function cacheStrategyOf(key: string): keyof typeof CacheStrategies | null {
+  const family = cacheFamilyOf(key)
+  if (family === "active_bakers" && key.endsWith(":active_bakers_all")) {
+    return "ALL_BAKERS"
+  }
+  return family ? (FAMILY_STRATEGIES[family] ?? null) : null
+}
+
+/**
+ * Fetch the data behind a cache key again, replacing the cached copy
+ * Used by the diagnostics page to debug stale data
+ * @param key - Cache key of the active network
+ * @param signal - Optional signal to cancel the request
+ * @returns Whether the key was recognised and refetched
+ */
+export async function refetchCacheKey(key: string, signal?: AbortSignal): Promise<boolean> {
+  const prefix = CacheKeys.networkPrefix()
+  const family = cacheFamilyOf(key)
+  if (!family || !key.startsWith(prefix) || !(family in FAMILY_STRATEGIES)) {
+    return false
+  }
+
+  // Parameters follow the family name: "<network>:<family>_<param>_<param>"
+  const [first, second] = key.slice(prefix.length + family.length + 1).split("_")
+  const previous = cacheManager.peek<unknown>(key)
+  cacheManager.invalidate(key)
+
+  switch (family) {
+    case "network_stats":
+      await getNetworkStats(signal)
+      break
+    case "current_cycle":
+      await getCurrentCycle(signal)
+      break
+    case "current_protocol":
+      await getCurrentProtocol(signal)
+      break
+    case "active_bakers":
+      await (first === "all" ? getAllActiveBakers(signal) : getActiveBakers(Number(first), signal))
+      break
+    case "baker_details":
+      await getBakerDetails(first, signal)
+      break
+    case "baker_rewards":
+      await getBakerRewards(first, Number(second), signal)
+      break
+    case "finalized_rewards": {
+      // Fetch the range the history covered
+      const history = previous?.data as FinalizedRewards | undefined
+      if (history) {
+        await getFinalizedRewards(first, history.from, history.to, signal)
+      }
+      break
+    }
+    case "bakers_stats":
+      await getBakersStats(signal)
+      break
+  }
+  return true
+}
+
+// ============ Cycle-aware Expiry ============
+
+/**
+ * Reward history of completed cycles, cached per baker
+ * Covers every cycle from `from` to `to`: a cycle without a record had no rewards
+ */
+interface FinalizedRewards {
+  from: number               // First cycle covered
+  to: number                 // Last cycle covered
+  rewards: BakerRewards[]    // Records of the covered cycles, newest first
+}
+
+/**
+ * Expiry of data that changes with every block of the current cycle
+ * It lasts until the next block: once the event client reports a higher head
+ * (see advanceLevel), or one block time after the cached head otherwise,
+ * and never past the end of the cycle
+ * @param cycle - Current cycle
+ */
+function nextBlockExpiry(cycle: Cycle): Pick<CacheOptions, "expiresAt" | "validUntilLevel"> {
+  const now = Date.now()
+  const cycleEnd = Date.parse(cycle.endTime)
+  const blockTime = Math.max(1000, (cycleEnd - Date.parse(cycle.startTime)) / (cycle.lastLevel - cycle.firstLevel + 1))
+
+  const head = cacheManager.peek<NetworkStats>(CacheKeys.networkStats(), CacheStrategies.NETWORK_STATS)?.data
+  const headTime = head ? Date.parse(head.timestamp) : NaN
+  const nextBlock = headTime + blockTime > now ? headTime + blockTime : now + blockTime
+
+  return {
+    // A cached cycle that already ended is outdated: only the block time applies then
+    expiresAt: cycleEnd > now ? Math.min(nextBlock, cycleEnd) : nextBlock,
+    validUntilLevel: head?.level,
+  }
+}
+
+function rewardsInRange(rewards: BakerRewards[], fromCycle: number, toCycle: number): BakerRewards[] {
+  return rewards.filter((item) => item.cycle >= fromCycle && item.cycle <= toCycle)
 }
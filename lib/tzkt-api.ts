@@ -9,6 +9,21 @@
  * TzKT API Documentation: https://api.tzkt.io/
  */
 
+/**
+ * XTZ price in the quote currencies supported by TzKT
+ * Only the currencies requested through the `quote` parameter are present
+ */
+export interface Quote {
+  btc?: number                     // XTZ price in BTC
+  eur?: number                     // XTZ price in EUR
+  usd?: number                     // XTZ price in USD
+  cny?: number                     // XTZ price in CNY
+  jpy?: number                     // XTZ price in JPY
+  krw?: number                     // XTZ price in KRW
+  eth?: number                     // XTZ price in ETH
+  gbp?: number                     // XTZ price in GBP
+}
+
 /**
  * Network-wide statistics from the Tezos blockchain
  * Provides overall state and metrics of the network
@@ -26,52 +41,91 @@ export interface NetworkStats {
   totalFrozen: number              // Total XTZ frozen in deposits/rewards
   totalRollupBonds: number         // XTZ locked in rollup bonds
   totalSmartRollupBonds: number    // XTZ locked in smart rollup bonds
-  quote?: {
-    usd: number                    // XTZ price in USD
-    eur: number                    // XTZ price in EUR
-    btc: number                    // XTZ price in BTC
+  quote?: Quote                    // Current XTZ price
+}
+
+/**
+ * Current head of the chain as seen by the indexer
+ * Returned by /v1/head and pushed by the "head" event subscription
+ */
+export interface Head {
+  chain: string                    // Chain name (e.g. "mainnet")
+  cycle: number                    // Cycle of the head block
+  level: number                    // Level of the head block
+  hash: string                     // Hash of the head block
+  protocol: string                 // Protocol hash of the head block
+  timestamp: string                // ISO timestamp of the head block
+  knownLevel: number               // Highest level the indexer knows about
+  synced: boolean                  // Whether the indexer has caught up with the node
+  quoteUsd?: number                // XTZ price in USD at the head block
+  quoteEur?: number                // XTZ price in EUR at the head block
+  quoteBtc?: number                // XTZ price in BTC at the head block
+}
+
+/**
+ * Block summary pushed by the "blocks" event subscription
+ */
+export interface Block {
+  cycle: number                    // Cycle the block belongs to
+  level: number                    // Block level
+  hash: string                     // Block hash
+  timestamp: string                // ISO timestamp of the block
+  proposer?: {
+    address: string                // Baker that proposed the payload
+    alias?: string                 // Baker name (if registered)
+  }
+  producer?: {
+    address: string                // Baker that produced the block
+    alias?: string                 // Baker name (if registered)
   }
 }
 
 /**
  * Baker (Delegate) information
  * Represents a Tezos baker with all relevant metrics
+ *
+ * Since the Paris protocol, a baker's funds fall into four groups that
+ * weigh differently in its baking power (see getStakingBreakdown):
+ * - Own staked: the baker's frozen funds
+ * - External staked: funds frozen by external stakers
+ * - Own delegated: the baker's liquid (spendable and unstaked) funds
+ * - External delegated: liquid funds of delegators
  */
 export interface Baker {
   address: string                  // Baker's Tezos address (tz1/tz2/tz3...)
   alias?: string                   // Human-readable name (if registered)
   type: string                     // Account type (usually "delegate")
   active: boolean                  // Whether baker is currently active
-  balance: number                  // Baker's own balance (in mutez)
-  frozenDeposits: number           // XTZ frozen as security deposits
-  frozenRewards: number            // XTZ frozen from rewards
-  frozenFees: number               // XTZ frozen from transaction fees
-  stakingBalance: number           // Total staking balance (own + delegated)
-  delegatedBalance: number         // XTZ delegated by others
+  balance: number                  // Baker's own total balance, including staked funds (in mutez)
+  stakedBalance: number            // Baker's own staked (frozen) funds
+  unstakedBalance: number          // Baker's own funds unstaked but not yet finalized
+  externalStakedBalance: number    // Funds staked by external stakers
+  externalUnstakedBalance: number  // External funds unstaked but not yet finalized
+  stakersCount: number             // Number of external stakers
+  delegatedBalance: number         // Liquid funds delegated by other accounts
+  stakingBalance: number           // Total of own, externally staked and delegated funds
   numDelegators: number            // Number of accounts delegating to this baker
-  stakingCapacity: number          // Maximum XTZ this baker can accept
-  stakingEfficiency: number        // Efficiency percentage (0-100)
-  fee: number                      // Baker's fee percentage
-  estimatedApy: number             // Estimated annual percentage yield
+  limitOfStakingOverBaking: number // Max external stake as a multiple of own stake (in millionths)
+  edgeOfBakingOverStaking: number  // Baker's cut of external stakers' rewards (in billionths)
   numBlocks: number                // Total blocks baked
-  numEndorsements: number          // Total endorsements made
+  numAttestations: number          // Total attestations (formerly endorsements) made
   numBallots: number               // Governance ballots cast
   numProposals: number             // Governance proposals submitted
   numActivations: number           // Account activations processed
   numDoubleBaking: number          // Double baking incidents (penalties)
-  numDoubleEndorsing: number       // Double endorsing incidents (penalties)
+  numDoubleAttestation?: number    // Double attestation incidents (penalties; absent on some TzKT versions)
   numNonceRevelations: number      // Nonce revelations made
   numRevelationPenalties: number   // Penalties from missed revelations
-  numEndorsingRewards: number      // Total endorsing rewards received
+  numAttestationRewards?: number   // Attestation rewards received (unused, may be absent)
   software?: {
-    version: string                // Baking software version
-    date: string                   // Last update date
+    version?: string               // Baking software version
+    date?: string                  // Last update date
   }
 }
 
 /**
  * Tezos cycle information
- * A cycle is a period of blocks (~2.8 days on mainnet)
+ * A cycle is a period of blocks (~1 day on mainnet since Paris)
  */
 export interface Cycle {
   index: number                    // Cycle number
@@ -79,55 +133,222 @@ export interface Cycle {
   startTime: string                // ISO timestamp of cycle start
   lastLevel: number                // Last block level in this cycle
   endTime: string                  // ISO timestamp of cycle end
-  snapshotIndex: number            // Random snapshot index for rights calculation
   snapshotLevel: number            // Block level of the snapshot
   randomSeed: string               // Random seed for this cycle
   totalBakers: number              // Total number of bakers this cycle
-  totalStaking: number             // Total XTZ staked this cycle
-  totalDelegated: number           // Total XTZ delegated this cycle
-  totalDelegators: number          // Total number of delegators
-  quote?: {
-    usd: number                    // XTZ price in USD during this cycle
-  }
+  totalBakingPower: number         // Total baking power of all bakers this cycle
+  blockReward?: number             // Fixed reward for producing a block
+  blockBonusPerSlot?: number       // Bonus per extra attestation slot included in a block
+  attestationRewardPerSlot?: number // Attestation reward per slot
+  nonceRevelationReward?: number   // Reward for revealing a seed nonce
+  vdfRevelationReward?: number     // Reward for revealing a VDF solution
+  quote?: Quote                    // XTZ price at the end of this cycle
 }
 
 /**
  * Baker rewards for a specific cycle
- * Tracks all rewards, penalties, and performance metrics
+ * Tracks rewards, penalties, performance and the baking power snapshot
+ *
+ * Rewards are split by who earns them:
+ * - Delegated: share attributed to liquid (delegated) funds, paid to the baker
+ * - StakedOwn: share of the baker's own stake
+ * - StakedEdge: baker's edge taken from external stakers' share
+ * - StakedShared: share left to external stakers
  */
 export interface BakerRewards {
   cycle: number                           // Cycle number for these rewards
-  baker: string                           // Baker's address
-  stakingBalance: number                  // Baker's staking balance for this cycle
+  bakingPower: number                     // Baker's baking power for this cycle
+  totalBakingPower: number                // Baking power of all bakers for this cycle
+  ownDelegatedBalance: number             // Baker's own delegated (liquid) funds
+  externalDelegatedBalance: number        // Funds delegated by delegators
+  delegatorsCount: number                 // Number of delegators
+  ownStakedBalance: number                // Baker's own staked funds
+  externalStakedBalance: number           // Funds staked by external stakers
+  stakersCount: number                    // Number of external stakers
   expectedBlocks: number                  // Number of blocks expected to bake
-  expectedEndorsements: number            // Number of endorsements expected
+  expectedAttestations: number            // Number of attestation slots expected
   futureBlocks: number                    // Future blocks (not yet baked)
   futureBlockRewards: number              // Potential rewards from future blocks
   blocks: number                          // Actual blocks baked
-  blockRewards: number                    // Rewards earned from baking blocks
+  blockRewardsDelegated: number           // Block rewards attributed to delegated funds
+  blockRewardsStakedOwn: number           // Block rewards on the baker's own stake
+  blockRewardsStakedEdge: number          // Block rewards edge from external stakers
+  blockRewardsStakedShared: number        // Block rewards shared with external stakers
   missedBlocks: number                    // Blocks missed (not baked)
   missedBlockRewards: number              // Rewards lost from missed blocks
-  futureEndorsements: number              // Future endorsements (not yet made)
-  futureEndorsementRewards: number        // Potential rewards from future endorsements
-  endorsements: number                    // Actual endorsements made
-  endorsementRewards: number              // Rewards earned from endorsements
-  missedEndorsements: number              // Endorsements missed
-  missedEndorsementRewards: number        // Rewards lost from missed endorsements
+  futureAttestations: number              // Future attestation slots
+  futureAttestationRewards: number        // Potential rewards from future attestations
+  attestations: number                    // Attestation slots fulfilled
+  attestationRewardsDelegated: number     // Attestation rewards attributed to delegated funds
+  attestationRewardsStakedOwn: number     // Attestation rewards on the baker's own stake
+  attestationRewardsStakedEdge: number    // Attestation rewards edge from external stakers
+  attestationRewardsStakedShared: number  // Attestation rewards shared with external stakers
+  missedAttestations: number              // Attestation slots missed
+  missedAttestationRewards: number        // Rewards lost from missed attestations
   blockFees: number                       // Transaction fees collected
   missedBlockFees: number                 // Fees lost from missed blocks
-  doubleBakingRewards: number             // Rewards from catching double bakers
-  doubleBakingLostDeposits: number        // Deposits lost due to double baking
-  doubleBakingLostRewards: number         // Rewards lost due to double baking
-  doubleBakingLostFees: number            // Fees lost due to double baking
-  doubleEndorsingRewards: number          // Rewards from catching double endorsers
-  doubleEndorsingLostDeposits: number     // Deposits lost due to double endorsing
-  doubleEndorsingLostRewards: number      // Rewards lost due to double endorsing
-  doubleEndorsingLostFees: number         // Fees lost due to double endorsing
-  revelationRewards: number               // Rewards from nonce revelations
-  revelationLostRewards: number           // Rewards lost from missed revelations
-  revelationLostFees: number              // Fees lost from missed revelations
-  quote?: {
-    usd: number                           // USD value of XTZ for this cycle
+  nonceRevelationRewardsDelegated?: number    // Nonce revelation rewards (delegated share)
+  nonceRevelationRewardsStakedOwn?: number    // Nonce revelation rewards (own stake)
+  nonceRevelationRewardsStakedEdge?: number   // Nonce revelation rewards (edge)
+  nonceRevelationRewardsStakedShared?: number // Nonce revelation rewards (stakers' share)
+  vdfRevelationRewardsDelegated?: number      // VDF revelation rewards (delegated share)
+  vdfRevelationRewardsStakedOwn?: number      // VDF revelation rewards (own stake)
+  vdfRevelationRewardsStakedEdge?: number     // VDF revelation rewards (edge)
+  vdfRevelationRewardsStakedShared?: number   // VDF revelation rewards (stakers' share)
+  doubleBakingRewards?: number            // Rewards from denouncing double bakers
+  doubleBakingLostStaked?: number         // Own staked funds slashed for double baking
+  doubleBakingLostExternalStaked?: number // External staked funds slashed for double baking
+  quote?: Quote                           // XTZ price at the end of this cycle
+}
+
+/**
+ * Where the displayed staking and delegation APY come from
+ */
+export interface ApySource {
+  id: string                              // Provider identifier
+  label: string                           // Provider name shown in the UI
+  url?: string                            // Link to the provider
+  fallback: boolean                       // Whether typical values are shown instead of a live estimate
+}
+
+/**
+ * Aggregated statistics about all bakers
+ */
+export interface BakersStats {
+  totalBakers: number                     // Total number of active bakers in current cycle
+  activeBakers: number                    // Active bakers
+  totalStaking: number                    // Total XTZ in PoS (in mutez)
+  averageApy: number                      // Staking APY, used as average
+  stakingApy: number                      // APY for staked funds (percent)
+  delegationApy: number                   // APY for delegated funds (percent)
+  apySource: ApySource                    // Provider of the APY values
+}
+
+// ============ Staking Model (Paris and later) ============
+
+/**
+ * Protocol constants used by the staking model and the APY estimate
+ * Older protocols, and some indexers, lack some of them
+ */
+export interface ProtocolConstants {
+  consensusCommitteeSize?: number          // Attestation slots per block
+  consensusThreshold?: number              // Attestation slots required for a block to be final
+  blocksPerCommitment?: number             // Blocks per seed nonce commitment (one nonce and one VDF revelation rewarded)
+  edgeOfStakingOverDelegation?: number     // Weight of staked funds over delegated funds in baking power
+  limitOfDelegationOverBaking?: number     // Delegated funds count up to this multiple of the baker's own stake
+  globalLimitOfStakingOverBaking?: number  // Maximum external stake as a multiple of the baker's own stake
+}
+
+/**
+ * Protocol active on a network (/v1/protocols/current)
+ */
+export interface Protocol {
+  code: number                             // Protocol sequence number
+  hash: string                             // Protocol hash
+  firstLevel: number                       // First block level of the protocol
+  firstCycle: number                       // First cycle of the protocol
+  constants: ProtocolConstants             // Protocol constants
+}
+
+/**
+ * Complete set of protocol constants for the staking calculations
+ */
+export interface StakingConstants extends Required<ProtocolConstants> {
+  fallback: boolean                        // Whether mainnet defaults replace constants TzKT did not provide
+}
+
+/**
+ * Mainnet constants (Paris and later), used only for constants TzKT did not provide
+ * Bakers may set a lower staking limit through limitOfStakingOverBaking
+ */
+export const FALLBACK_STAKING_CONSTANTS: StakingConstants = {
+  consensusCommitteeSize: 7000,
+  consensusThreshold: 4667,
+  blocksPerCommitment: 240,
+  edgeOfStakingOverDelegation: 3,
+  limitOfDelegationOverBaking: 9,
+  globalLimitOfStakingOverBaking: 5,
+  fallback: true,
+}
+
+const PROTOCOL_CONSTANT_NAMES: (keyof ProtocolConstants)[] = [
+  "consensusCommitteeSize",
+  "consensusThreshold",
+  "blocksPerCommitment",
+  "edgeOfStakingOverDelegation",
+  "limitOfDelegationOverBaking",
+  "globalLimitOfStakingOverBaking",
+]
+
+/**
+ * Complete the constants of a protocol with the mainnet defaults
+ * @param protocol - Current protocol (null when TzKT could not provide it)
+ * @returns Constants for the staking calculations, flagged as fallback when any default was used
+ */
+export function resolveStakingConstants(protocol: Protocol | null): StakingConstants {
+  const constants: StakingConstants = { ...FALLBACK_STAKING_CONSTANTS, fallback: false }
+
+  for (const name of PROTOCOL_CONSTANT_NAMES) {
+    const value = protocol?.constants[name]
+    if (value !== undefined && value > 0) {
+      constants[name] = value
+    } else {
+      constants.fallback = true
+    }
+  }
+
+  return constants
+}
+
+/**
+ * Breakdown of a baker's staking balance into the parts used for baking power
+ * All amounts in mutez
+ */
+export interface StakingBreakdown {
+  ownStaked: number             // Baker's own frozen funds
+  externalStaked: number        // External stake counted as staked
+  overstaked: number            // External stake above the baker's limit (counted as delegated)
+  ownDelegated: number          // Baker's own liquid funds
+  externalDelegated: number     // Delegators' liquid funds
+  overdelegated: number         // Delegated funds above the protocol limit (ignored)
+  maxExternalStaked: number     // External stake the baker can accept at its current limit
+  bakingPower: number           // Resulting baking power
+}
+
+/**
+ * Compute how a baker's funds contribute to its baking power
+ *
+ * baking power = own staked + external staked (within limit)
+ *              + min(delegated, 9 x own staked) / 3
+ *
+ * (mainnet multipliers; the actual ones come from the protocol constants)
+ * External stake above the baker's limit is treated as delegated.
+ * @param baker - Baker information
+ * @param constants - Constants of the network's current protocol
+ * @returns Staking balance breakdown and baking power
+ */
+export function getStakingBreakdown(baker: Baker, constants: StakingConstants): StakingBreakdown {
+  const ownStaked = baker.stakedBalance
+  const stakingLimit = Math.min(baker.limitOfStakingOverBaking / 1000000, constants.globalLimitOfStakingOverBaking)
+  const maxExternalStaked = ownStaked * stakingLimit
+
+  const externalStaked = Math.min(baker.externalStakedBalance, maxExternalStaked)
+  const overstaked = baker.externalStakedBalance - externalStaked
+
+  const ownDelegated = Math.max(0, baker.balance - baker.stakedBalance)
+  const externalDelegated = baker.delegatedBalance
+  const totalDelegated = ownDelegated + externalDelegated + overstaked
+  const countedDelegated = Math.min(totalDelegated, ownStaked * constants.limitOfDelegationOverBaking)
+
+  return {
+    ownStaked,
+    externalStaked,
+    overstaked,
+    ownDelegated,
+    externalDelegated,
+    overdelegated: totalDelegated - countedDelegated,
+    maxExternalStaked,
+    bakingPower: ownStaked + externalStaked + countedDelegated / constants.edgeOfStakingOverDelegation,
   }
 }
 
@@ -137,12 +358,13 @@ export interface BakerRewards {
  * Format XTZ amounts for display
  * Converts from mutez (1 XTZ = 1,000,000 mutez) to XTZ
  * @param amount - Amount in mutez
+ * @param fractionDigits - Maximum decimals to show (default: whole XTZ)
  * @returns Formatted string with thousand separators
  */
-export function formatXTZ(amount: number): string {
+export function formatXTZ(amount: number, fractionDigits = 0): string {
   return new Intl.NumberFormat("en-US", {
     minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
+    maximumFractionDigits: fractionDigits,
   }).format(amount / 1000000) // Convert from mutez to XTZ
 }
 
@@ -155,6 +377,24 @@ export function formatPercentage(value: number): string {
   return `${value.toFixed(2)}%`
 }
 
+/**
+ * Format the baker's staking limit (limitOfStakingOverBaking) for display
+ * @param limit - Limit in millionths
+ * @returns Multiplier string (e.g., "5x")
+ */
+export function formatStakingLimit(limit: number): string {
+  return `${(limit / 1000000).toLocaleString("en-US", { maximumFractionDigits: 2 })}x`
+}
+
+/**
+ * Format the baker's edge over external stakers (edgeOfBakingOverStaking)
+ * @param edge - Edge in billionths
+ * @returns Formatted percentage string
+ */
+export function formatEdge(edge: number): string {
+  return formatPercentage(edge / 10000000)
+}
+
 /**
  * Format Tezos addresses for display (shortened)
  * @param address - Full Tezos address
@@ -164,22 +404,96 @@ export function formatAddress(address: string): string {
   return `${address.slice(0, 7)}...${address.slice(-4)}`
 }
 
+/**
+ * Total rewards earned in a cycle by the baker and its stakers
+ * Sums block and attestation rewards (all shares), revelation rewards and fees
+ * @param reward - Reward data for one cycle
+ * @returns Total rewards in mutez
+ */
+export function getTotalRewards(reward: BakerRewards): number {
+  return (
+    reward.blockRewardsDelegated +
+    reward.blockRewardsStakedOwn +
+    reward.blockRewardsStakedEdge +
+    reward.blockRewardsStakedShared +
+    reward.attestationRewardsDelegated +
+    reward.attestationRewardsStakedOwn +
+    reward.attestationRewardsStakedEdge +
+    reward.attestationRewardsStakedShared +
+    (reward.nonceRevelationRewardsDelegated ?? 0) +
+    (reward.nonceRevelationRewardsStakedOwn ?? 0) +
+    (reward.nonceRevelationRewardsStakedEdge ?? 0) +
+    (reward.nonceRevelationRewardsStakedShared ?? 0) +
+    (reward.vdfRevelationRewardsDelegated ?? 0) +
+    (reward.vdfRevelationRewardsStakedOwn ?? 0) +
+    (reward.vdfRevelationRewardsStakedEdge ?? 0) +
+    (reward.vdfRevelationRewardsStakedShared ?? 0) +
+    reward.blockFees
+  )
+}
+
+/**
+ * Calculate network-wide staking and delegation APY from issuance parameters
+ *
+ * Every cycle, the protocol issues block rewards, attestation rewards,
+ * bonuses and revelation rewards (values published per cycle by TzKT).
+ * They are shared in proportion to baking power, where staked tez count
+ * fully and delegated tez count for one third:
+ *
+ * staking APY    = yearly issuance / total baking power
+ * delegation APY = staking APY / 3
+ *
+ * (mainnet edge; the actual one comes from the protocol constants)
+ * Assumes full attestation participation and ignores fees and baker edges,
+ * so the result is the gross yield of the network.
+ * @param cycle - Cycle with issuance parameters (the current cycle)
+ * @param constants - Constants of the network's current protocol
+ * @returns APY values in percent, or null when the cycle lacks issuance data
+ */
+export function calculateNetworkApy(
+  cycle: Cycle,
+  constants: StakingConstants,
+): { stakingApy: number; delegationApy: number } | null {
+  const { blockReward, blockBonusPerSlot, attestationRewardPerSlot } = cycle
+  if (blockReward === undefined || blockBonusPerSlot === undefined || attestationRewardPerSlot === undefined) {
+    return null
+  }
+
+  const blocksPerCycle = cycle.lastLevel - cycle.firstLevel + 1
+  const cycleDuration = Date.parse(cycle.endTime) - Date.parse(cycle.startTime)
+  if (!(blocksPerCycle > 0) || !(cycleDuration > 0) || cycle.totalBakingPower <= 0) {
+    return null
+  }
+
+  const rewardsPerBlock =
+    blockReward +
+    blockBonusPerSlot * (constants.consensusCommitteeSize - constants.consensusThreshold) +
+    attestationRewardPerSlot * constants.consensusCommitteeSize
+  const revelationRewards = (cycle.nonceRevelationReward ?? 0) + (cycle.vdfRevelationReward ?? 0)
+  const rewardsPerCycle = rewardsPerBlock * blocksPerCycle + (revelationRewards * blocksPerCycle) / constants.blocksPerCommitment
+
+  const cyclesPerYear = (365.25 * 24 * 60 * 60 * 1000) / cycleDuration
+  const stakingApy = ((rewardsPerCycle * cyclesPerYear) / cycle.totalBakingPower) * 100
+
+  return { stakingApy, delegationApy: stakingApy / constants.edgeOfStakingOverDelegation }
+}
+
 /**
  * Calculate estimated APY based on recent rewards
+ * Rewards are related to the baking power that earned them
  * @param baker - Baker information
  * @param recentRewards - Array of recent reward cycles
- * @returns Estimated annual percentage yield
+ * @returns Estimated annual percentage yield per unit of baking power
  */
 export function calculateEstimatedApy(baker: Baker, recentRewards: BakerRewards[]): number {
-  if (recentRewards.length === 0 || baker.stakingBalance === 0) return 0
+  // Only completed cycles with a baking power snapshot are meaningful
+  const completed = recentRewards.filter((reward) => reward.futureBlocks === 0 && reward.bakingPower > 0)
+  if (completed.length === 0 || baker.stakingBalance === 0) return 0
 
-  // Calculate average rewards from recent cycles
-  const avgRewards =
-    recentRewards.reduce((sum, reward) => {
-      return sum + (reward.blockRewards + reward.endorsementRewards + reward.blockFees)
-    }, 0) / recentRewards.length
+  // Average reward per unit of baking power over recent cycles
+  const avgYieldPerCycle =
+    completed.reduce((sum, reward) => sum + getTotalRewards(reward) / reward.bakingPower, 0) / completed.length
 
-  // Estimate APY (approximately 365 cycles per year)
-  const annualRewards = avgRewards * 365
-  return (annualRewards / baker.stakingBalance) * 100
+  // Estimate APY (approximately 365 one-day cycles per year)
+  return avgYieldPerCycle * 365 * 100
 }
@@ -0,0 +1,529 @@
+/**
+ * Real-time TzKT Event Subscriptions
+ *
+ * TzKT pushes chain events through a SignalR hub at `/v1/ws`. This module
+ * speaks the SignalR JSON protocol over a plain WebSocket and subscribes to:
+ * - head: every new head of the chain (level, cycle, timestamp)
+ * - blocks: every new block
+ * - cycle: every new cycle, once it has started
+ *
+ * Events are pushed into the cache manager so hooks listening to the cache
+ * update right away instead of waiting for their next refresh:
+ * - head patches the cached network stats (level, cycle, timestamp) and
+ *   expires entries valid only up to the previous level
+ * - cycle replaces the cached current cycle and drops data tagged with the previous cycle
+ *
+ * When WebSockets are unavailable or the hub can't be reached, the client
+ * polls `/v1/head` instead and keeps retrying the socket with backoff.
+ *
+ * Environment variables:
+ * - NEXT_PUBLIC_TZKT_EVENTS_URL: Hub URL override (e.g. ws://localhost:5000/v1/ws for a mock hub)
+ */
+
+import { cacheManager, CacheStrategies, CacheKeys } from "./cache-manager"
+import { cacheSync, type CacheSync } from "./cache-sync"
+import { getActiveNetwork, subscribeToNetwork } from "./tezos-network"
+import { fetchJsonWithRetry } from "./tzkt-fetch"
+import { validateResponse, HeadSchema, BlockListSchema, CycleSchema, type ResponseSchema } from "./tzkt-schemas"
+import { getCurrentCycle, invalidateCycleCache, tzktUrl } from "./tzkt-api-cached"
+import type { Head, Block, Cycle, NetworkStats } from "./tzkt-api"
+
+/**
+ * Connection state of the event client
+ * - idle: not started
+ * - connecting: opening the socket and running the SignalR handshake
+ * - live: subscribed, events are pushed by the hub
+ * - polling: socket unavailable, the head is polled instead
+ */
+export type TzktEventsStatus = "idle" | "connecting" | "live" | "polling"
+
+/**
+ * Event delivered to client listeners
+ */
+export type TzktEvent =
+  | { type: "head"; head: Head }
+  | { type: "blocks"; blocks: Block[] }
+  | { type: "cycle"; cycle: Cycle }
+
+/**
+ * Minimal WebSocket constructor, so tests can inject their own implementation
+ */
+export type WebSocketConstructor = new (url: string) => WebSocket
+
+/**
+ * Configuration options for the event client
+ */
+export interface TzktEventsOptions {
+  url?: string                           // Hub URL (default: env override, then the active network's /v1/ws)
+  WebSocketImpl?: WebSocketConstructor   // WebSocket implementation (default: the global WebSocket)
+  pollIntervalMs?: number                // Head polling interval while the socket is down (default: 15 s)
+  maxReconnectDelayMs?: number           // Upper bound for the socket reconnect backoff (default: 60 s)
+}
+
+// SignalR separates JSON messages with the ASCII record separator
+const RECORD_SEPARATOR = "\u001e"
+
+// SignalR message types used by the TzKT hub
+const INVOCATION = 1
+const COMPLETION = 3
+const PING = 6
+const CLOSE = 7
+
+// TzKT payload types inside an invocation
+const PAYLOAD_DATA = 1
+
+// Interval of keep-alive pings (the hub drops clients silent for 30 s)
+const PING_INTERVAL_MS = 15 * 1000
+
+// Blocks to wait after a cycle starts before the hub notifies us (TzKT minimum)
+const CYCLE_DELAY_BLOCKS = 2
+
+// Cross-tab topic carrying the leader tab's connection state
+const STATUS_TOPIC = "tzkt-events-status"
+
+/**
+ * One SignalR message as received from the hub
+ */
+interface HubMessage {
+  type?: number
+  target?: string
+  arguments?: unknown[]
+  invocationId?: string
+  error?: string
+}
+
+/**
+ * TzKT subscription payload carried by an invocation
+ */
+interface HubPayload {
+  type: number   // 0: state, 1: data, 2: reorg
+  state: number  // Level of the last processed block
+  data?: unknown
+}
+
+/**
+ * Schema and event builder of a hub channel
+ */
+interface Channel<T> {
+  schema: ResponseSchema              // Schema the payload data must match
+  toEvent: (data: T) => TzktEvent     // Builds the event from validated data
+}
+
+/**
+ * Schema and event builder for each hub channel
+ */
+const CHANNELS: Record<string, Channel<unknown>> = {
+  head: defineChannel<Head>(HeadSchema, (head) => ({ type: "head", head })),
+  blocks: defineChannel<Block[]>(BlockListSchema, (blocks) => ({ type: "blocks", blocks })),
+  cycle: defineChannel<Cycle>(CycleSchema, (cycle) => ({ type: "cycle", cycle })),
+}
+
+/**
+ * TzktEventClient class - Keeps cached chain data up to date in real time
+ *
+ * Features:
+ * - SignalR JSON protocol over a plain WebSocket (no client library)
+ * - Head, block and cycle subscriptions pushed into the cache manager
+ * - Fallback to /v1/head polling with socket reconnects in the background
+ * - Reference-counted start/stop shared by every component that needs it
+ * - Reconnects to the new indexer when the active network changes
+ * - Connection state shared across tabs: only the polling leader tab
+ *   connects, the others report its state (see shareStatus)
+ */
+export class TzktEventClient {
+  private socket: WebSocket | null = null
+  private status: TzktEventsStatus = "idle"
+  private retainCount = 0
+  private reconnectAttempts = 0
+  private invocationCount = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private pingTimer: ReturnType<typeof setInterval> | null = null
+  private pollTimer: ReturnType<typeof setInterval> | null = null
+  private pollController: AbortController | null = null
+  private unsubscribeNetwork: (() => void) | null = null
+  private listeners = new Set<(event: TzktEvent) => void>()
+  private statusListeners = new Set<() => void>()
+  private leaderStatus: TzktEventsStatus | null = null
+  private sync: CacheSync | null = null
+
+  constructor(private readonly options: TzktEventsOptions = {}) {}
+
+  /**
+   * Start the client if needed and keep it running until released
+   * @returns Release function; the client stops once every holder released it
+   */
+  retain(): () => void {
+    this.retainCount++
+    if (this.retainCount === 1) {
+      this.start()
+    }
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.retainCount--
+      if (this.retainCount === 0) {
+        this.stop()
+      }
+    }
+  }
+
+  /**
+   * Connect to the hub (or start polling) and follow network changes
+   */
+  start(): void {
+    if (this.status !== "idle") return
+
+    this.unsubscribeNetwork = subscribeToNetwork(() => this.restart())
+    this.connect()
+  }
+
+  /**
+   * Close the socket, stop polling and forget the reconnect backoff
+   */
+  stop(): void {
+    this.unsubscribeNetwork?.()
+    this.unsubscribeNetwork = null
+    this.teardown()
+    this.reconnectAttempts = 0
+    this.setStatus("idle")
+  }
+
+  /**
+   * Current connection state
+   * While this client is idle, the state of the leader tab's client is reported
+   */
+  getStatus = (): TzktEventsStatus => (this.status === "idle" && this.leaderStatus ? this.leaderStatus : this.status)
+
+  /**
+   * Share the connection state with other tabs
+   * The leader tab publishes its state; follower tabs report the leader's
+   * @param sync - Cross-tab channel
+   * @returns Function that stops sharing
+   */
+  shareStatus(sync: CacheSync): () => void {
+    this.sync = sync
+    const unsubscribe = sync.subscribeToTopic(STATUS_TOPIC, (status) => {
+      this.leaderStatus = status as TzktEventsStatus
+      this.statusListeners.forEach((listener) => listener())
+    })
+
+    return () => {
+      unsubscribe()
+      this.sync = null
+      this.leaderStatus = null
+    }
+  }
+
+  /**
+   * Subscribe to connection state changes
+   * @returns Unsubscribe function
+   */
+  subscribeToStatus = (listener: () => void): (() => void) => {
+    this.statusListeners.add(listener)
+    return () => {
+      this.statusListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Subscribe to head, block and cycle events
+   * Events are delivered after they have been applied to the cache
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (event: TzktEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // ============ Connection ============
+
+  private connect(): void {
+    const WebSocketImpl = this.options.WebSocketImpl ?? (typeof WebSocket !== "undefined" ? WebSocket : undefined)
+    if (!WebSocketImpl) {
+      // No WebSocket support at all: polling is the only option
+      this.startPolling()
+      return
+    }
+
+    if (this.status !== "polling") {
+      this.setStatus("connecting")
+    }
+
+    let socket: WebSocket
+    try {
+      socket = new WebSocketImpl(this.hubUrl())
+    } catch (error) {
+      console.warn("TzKT event hub unavailable:", error)
+      this.handleDisconnect()
+      return
+    }
+
+    this.socket = socket
+    let handshakeDone = false
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ protocol: "json", version: 1 }) + RECORD_SEPARATOR)
+    }
+
+    socket.onmessage = (event: MessageEvent) => {
+      // Ignore late messages from a socket that was replaced or closed
+      if (socket !== this.socket) return
+
+      for (const message of parseFrames(String(event.data))) {
+        if (!handshakeDone) {
+          handshakeDone = true
+          if (message.error) {
+            console.warn("TzKT event hub rejected the handshake:", message.error)
+            socket.close()
+            return
+          }
+          this.handleConnected(socket)
+          continue
+        }
+
+        this.handleMessage(message)
+      }
+    }
+
+    socket.onclose = () => {
+      if (socket !== this.socket) return
+      this.socket = null
+      this.handleDisconnect()
+    }
+  }
+
+  private handleConnected(socket: WebSocket): void {
+    this.reconnectAttempts = 0
+    this.stopPolling()
+    this.setStatus("live")
+
+    this.invoke(socket, "SubscribeToHead")
+    this.invoke(socket, "SubscribeToBlocks")
+    this.invoke(socket, "SubscribeToCycle", { delayBlocks: CYCLE_DELAY_BLOCKS })
+
+    this.pingTimer = setInterval(() => {
+      socket.send(JSON.stringify({ type: PING }) + RECORD_SEPARATOR)
+    }, PING_INTERVAL_MS)
+  }
+
+  /**
+   * Fall back to polling and schedule a reconnect with exponential backoff
+   */
+  private handleDisconnect(): void {
+    this.stopPing()
+    this.startPolling()
+
+    const maxDelay = this.options.maxReconnectDelayMs ?? 60 * 1000
+    const delay = Math.min(maxDelay, 1000 * 2 ** this.reconnectAttempts)
+    this.reconnectAttempts++
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, delay)
+  }
+
+  private invoke(socket: WebSocket, target: string, ...args: unknown[]): void {
+    const message = { type: INVOCATION, invocationId: String(++this.invocationCount), target, arguments: args }
+    socket.send(JSON.stringify(message) + RECORD_SEPARATOR)
+  }
+
+  private handleMessage(message: HubMessage): void {
+    switch (message.type) {
+      case INVOCATION: {
+        const channel = message.target ? CHANNELS[message.target] : undefined
+        const payload = message.arguments?.[0] as HubPayload | undefined
+
+        // State and reorg payloads carry no data; the next head message has the new chain tip
+        if (!channel || payload?.type !== PAYLOAD_DATA) return
+
+        try {
+          const data = validateResponse(channel.schema, payload.data, `/v1/ws (${message.target})`)
+          this.dispatch(channel.toEvent(data))
+        } catch {
+          // Malformed events are reported by the schema check and dropped
+        }
+        return
+      }
+      case COMPLETION:
+        if (message.error) {
+          console.warn("TzKT event subscription failed:", message.error)
+        }
+        return
+      case CLOSE:
+        if (message.error) {
+          console.warn("TzKT event hub closed the connection:", message.error)
+        }
+        return
+      default:
+        // Pings need no answer: our own pings keep the connection alive
+        return
+    }
+  }
+
+  private restart(): void {
+    this.teardown()
+    this.reconnectAttempts = 0
+    this.connect()
+  }
+
+  private teardown(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.stopPing()
+    this.stopPolling()
+
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer)
+      this.pingTimer = null
+    }
+  }
+
+  private hubUrl(): string {
+    if (this.options.url) return this.options.url
+    if (process.env.NEXT_PUBLIC_TZKT_EVENTS_URL) return process.env.NEXT_PUBLIC_TZKT_EVENTS_URL
+    return `${getActiveNetwork().tzktApiBase.replace(/^http/, "ws")}/v1/ws`
+  }
+
+  // ============ Polling Fallback ============
+
+  private startPolling(): void {
+    if (this.pollTimer) return
+
+    this.setStatus("polling")
+    this.pollHead()
+    this.pollTimer = setInterval(() => this.pollHead(), this.options.pollIntervalMs ?? 15 * 1000)
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+    this.pollController?.abort()
+    this.pollController = null
+  }
+
+  private async pollHead(): Promise<void> {
+    // Skip a tick rather than stacking requests behind a slow indexer
+    if (this.pollController) return
+
+    const controller = new AbortController()
+    this.pollController = controller
+
+    try {
+      // Through the server proxy in proxy mode, like the other requests
+      const data = await fetchJsonWithRetry<unknown>(tzktUrl("/v1/head"), "/v1/head", { retries: 0 }, controller.signal)
+      this.dispatch({ type: "head", head: validateResponse<Head>(HeadSchema, data, "/v1/head") })
+    } catch {
+      // Try again on the next tick (aborted polls belong to a previous network)
+    } finally {
+      if (this.pollController === controller) {
+        this.pollController = null
+      }
+    }
+  }
+
+  // ============ Cache Updates ============
+
+  private dispatch(event: TzktEvent): void {
+    if (event.type === "head") {
+      this.applyHead(event.head)
+    } else if (event.type === "cycle") {
+      this.applyCycle(event.cycle)
+    }
+
+    this.listeners.forEach((listener) => listener(event))
+  }
+
+  /**
+   * Move the cached network stats to the new head
+   * Supply totals keep their age, so they still refresh on schedule
+   */
+  private applyHead(head: Head): void {
+    cacheManager.advanceLevel(head.level, CacheKeys.networkPrefix())
+
+    const statsKey = CacheKeys.networkStats()
+    const stats = cacheManager.peek<NetworkStats>(statsKey, CacheStrategies.NETWORK_STATS)
+
+    if (stats && head.level > stats.data.level) {
+      cacheManager.update<NetworkStats>(
+        statsKey,
+        (data) => ({ ...data, level: head.level, cycle: head.cycle, timestamp: head.timestamp }),
+        CacheStrategies.NETWORK_STATS,
+      )
+    }
+
+    // Without the cycle subscription, the head is our only hint that a new cycle started
+    if (this.status !== "live") {
+      const cycles = cacheManager.peek<Cycle[]>(CacheKeys.currentCycle(), CacheStrategies.NETWORK_STATS)
+      if (cycles && cycles.data[0] && head.cycle > cycles.data[0].index) {
+        invalidateCycleCache(cycles.data[0].index)
+        getCurrentCycle().catch((error) => {
+          console.warn("Failed to refresh the current cycle:", error)
+        })
+      }
+    }
+  }
+
+  /**
+   * Replace the cached current cycle when a new one starts
+   */
+  private applyCycle(cycle: Cycle): void {
+    const cycles = cacheManager.peek<Cycle[]>(CacheKeys.currentCycle(), CacheStrategies.NETWORK_STATS)
+    if (cycles && cycles.data[0] && cycle.index <= cycles.data[0].index) return
+
+    // Drop data of the previous cycle, then cache the new one the way getCurrentCycle stores it
+    invalidateCycleCache(cycle.index - 1)
+    cacheManager.set(CacheKeys.currentCycle(), [cycle], CacheStrategies.NETWORK_STATS)
+  }
+
+  private setStatus(status: TzktEventsStatus): void {
+    if (this.status === status) return
+    this.status = status
+    this.sync?.publish(STATUS_TOPIC, status)
+    this.statusListeners.forEach((listener) => listener())
+  }
+}
+
+/**
+ * Split a WebSocket frame into SignalR messages
+ */
+function parseFrames(raw: string): HubMessage[] {
+  return raw
+    .split(RECORD_SEPARATOR)
+    .filter((part) => part.trim() !== "")
+    .flatMap((part) => {
+      try {
+        return [JSON.parse(part) as HubMessage]
+      } catch {
+        return []
+      }
+    })
+}
+
+/**
+ * Channel entry whose event builder receives the data its schema validated
+ */
+function defineChannel<T>(schema: ResponseSchema, toEvent: (data: T) => TzktEvent): Channel<unknown> {
+  return { schema, toEvent: (data) => toEvent(data as T) }
+}
+
+/**
+ * Singleton event client for the active network
+ * Components start it through retain() in the polling leader tab (see useNetworkStats)
+ */
+export const tzktEvents = new TzktEventClient()
+tzktEvents.shareStatus(cacheSync)
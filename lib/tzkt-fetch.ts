@@ -0,0 +1,428 @@
+/**
+ * Resilient HTTP Layer for TzKT and tez.cool
+ *
+ * This module wraps `fetch` with the safeguards needed for public indexers:
+ * - Retries with jittered exponential backoff for transient failures
+ * - Rate-limit handling that respects the `Retry-After` header
+ * - A circuit breaker per upstream host that fails fast while it is down
+ * - A typed `TzktApiError` carrying status, endpoint and retryability
+ * - Cancellation through an optional `AbortSignal`, including during backoff
+ * - Response times per endpoint, for the cache diagnostics page
+ */
+
+/**
+ * Error raised when an upstream API request fails
+ * Hooks use `userMessage` to show a readable explanation to the user
+ */
+export class TzktApiError extends Error {
+  readonly status: number | null       // HTTP status (null for network failures)
+  readonly endpoint: string            // Endpoint path or URL that failed
+  readonly retryable: boolean          // Whether retrying later may succeed
+  readonly retryAfterMs: number | null // Server-requested delay before retrying
+  readonly circuitOpen: boolean        // Whether the request was short-circuited
+
+  constructor(
+    message: string,
+    options: {
+      status?: number | null
+      endpoint: string
+      retryable: boolean
+      retryAfterMs?: number | null
+      circuitOpen?: boolean
+    },
+  ) {
+    super(message)
+    this.name = "TzktApiError"
+    this.status = options.status ?? null
+    this.endpoint = options.endpoint
+    this.retryable = options.retryable
+    this.retryAfterMs = options.retryAfterMs ?? null
+    this.circuitOpen = options.circuitOpen ?? false
+  }
+
+  /**
+   * Short explanation suitable for display in the UI
+   */
+  get userMessage(): string {
+    if (this.circuitOpen) return "The data service is temporarily unavailable. Please try again shortly."
+    if (this.status === 429) return "Too many requests to the data service. Please wait a moment and retry."
+    if (this.status === 404) return "The requested data was not found."
+    if (this.status === null) return "Could not reach the data service. Check your connection."
+    if (this.status >= 500) return "The data service is having trouble. Please try again later."
+    return `Request failed (HTTP ${this.status}).`
+  }
+}
+
+/**
+ * Get a user-facing message for any error thrown by the API layer
+ * @param error - Caught error
+ * @param fallback - Message used for unknown errors
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof TzktApiError) return error.userMessage
+  return error instanceof Error ? error.message : fallback
+}
+
+/**
+ * Whether an error was caused by an aborted request
+ * Aborts are expected (e.g. superseded requests) and should not be shown to users
+ */
+export function isAbortError(error: unknown): boolean {
+  // DOMException is not an Error subclass in every runtime, so check the name only
+  return typeof error === "object" && error !== null && (error as { name?: unknown }).name === "AbortError"
+}
+
+/**
+ * Error to reject with when a signal is aborted
+ * Uses the signal's own reason, falling back to a standard AbortError
+ */
+export function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted.", "AbortError")
+}
+
+/**
+ * Whether an error means the upstream is failing (as opposed to a bad request)
+ * Used to decide when stale cache entries may be served instead
+ */
+export function isUpstreamFailure(error: unknown): boolean {
+  return error instanceof TzktApiError && error.retryable
+}
+
+// ============ Retry Policy ============
+
+/**
+ * Retry configuration for a request
+ */
+export interface RetryOptions {
+  retries?: number       // Additional attempts after the first one (default: 3)
+  baseDelayMs?: number   // Initial backoff delay (default: 500 ms)
+  maxDelayMs?: number    // Upper bound for a single backoff delay (default: 10 s)
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10 * 1000,
+}
+
+// Longest Retry-After we are willing to wait inside a single request
+const MAX_RETRY_AFTER_MS = 30 * 1000
+
+// HTTP statuses worth retrying: timeouts, rate limits and server errors
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+/**
+ * Fetch a URL and parse its JSON body with retries and circuit breaking
+ * @param url - Absolute URL to fetch
+ * @param endpoint - Endpoint label used in errors (defaults to the URL)
+ * @param retry - Retry configuration
+ * @param signal - Optional signal that cancels the request and pending retries
+ * @returns Parsed JSON response
+ * @throws TzktApiError when all attempts fail or the circuit is open
+ * @throws The signal's abort reason (an "AbortError") when cancelled
+ */
+export async function fetchJsonWithRetry<T>(
+  url: string,
+  endpoint: string = url,
+  retry: RetryOptions = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...retry }
+  const breaker = getCircuitBreaker(url)
+
+  throwIfAborted(signal)
+
+  if (!breaker.canRequest()) {
+    throw new TzktApiError(`Circuit open for ${breaker.name}, skipping ${endpoint}`, {
+      endpoint,
+      retryable: true,
+      retryAfterMs: breaker.remainingOpenMs(),
+      circuitOpen: true,
+    })
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = await fetchJsonOnce<T>(url, endpoint, signal)
+      breaker.recordSuccess()
+      return data
+    } catch (error) {
+      if (signal?.aborted) {
+        // Cancelled by the caller: says nothing about the host's health
+        breaker.releaseTrial()
+        throw abortReason(signal)
+      }
+
+      const apiError = toApiError(error, endpoint)
+      const canRetry = apiError.retryable && attempt < retries
+
+      if (!canRetry || (apiError.retryAfterMs !== null && apiError.retryAfterMs > MAX_RETRY_AFTER_MS)) {
+        if (apiError.retryable) {
+          breaker.recordFailure(apiError.retryAfterMs)
+        } else {
+          // The host answered (e.g. 404), so it is up even if the request was bad
+          breaker.recordSuccess()
+        }
+        throw apiError
+      }
+
+      try {
+        await sleep(apiError.retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs), signal)
+      } catch (abortError) {
+        breaker.releaseTrial()
+        throw abortError
+      }
+    }
+  }
+}
+
+/**
+ * Perform one request attempt and translate failures into TzktApiError
+ */
+async function fetchJsonOnce<T>(url: string, endpoint: string, signal?: AbortSignal): Promise<T> {
+  const startedAt = performance.now()
+  let ok = false
+
+  try {
+    const response = await fetch(url, { signal })
+
+    if (!response.ok) {
+      throw new TzktApiError(`TzKT API error: ${response.status} ${response.statusText} (${endpoint})`, {
+        status: response.status,
+        endpoint,
+        retryable: RETRYABLE_STATUSES.has(response.status),
+        retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+      })
+    }
+
+    // TzKT answers 204 No Content for entities that do not exist (e.g. an account that is not a delegate)
+    if (response.status === 204) {
+      throw new TzktApiError(`TzKT API error: no such resource (${endpoint})`, {
+        status: 404,
+        endpoint,
+        retryable: false,
+      })
+    }
+
+    const data = await response.json()
+    ok = true
+    return data
+  } finally {
+    // A cancelled attempt says nothing about the upstream's speed
+    if (!signal?.aborted) {
+      recordLatency(endpoint, performance.now() - startedAt, ok)
+    }
+  }
+}
+
+/**
+ * Wrap unknown failures (network errors, invalid JSON) in a TzktApiError
+ */
+function toApiError(error: unknown, endpoint: string): TzktApiError {
+  if (error instanceof TzktApiError) return error
+
+  const message = error instanceof Error ? error.message : String(error)
+  return new TzktApiError(`Network error while fetching ${endpoint}: ${message}`, {
+    endpoint,
+    // fetch rejects with a TypeError when the network is unreachable
+    retryable: error instanceof TypeError,
+  })
+}
+
+/**
+ * Exponential backoff with full jitter
+ * Spreads retries from many clients so they don't hit TzKT in lockstep
+ */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date)
+ * @returns Delay in milliseconds, or null when absent/invalid
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortReason(signal!))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    if (signal?.aborted) {
+      onAbort()
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true })
+    }
+  })
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal)
+  }
+}
+
+// ============ Circuit Breaker ============
+
+/**
+ * Circuit breaker guarding one upstream host
+ *
+ * States:
+ * - closed: requests flow normally
+ * - open: requests fail fast until the cool-down elapses
+ * - half-open: one trial request decides whether to close or re-open
+ */
+class CircuitBreaker {
+  private consecutiveFailures = 0
+  private openedUntil = 0
+  private trialInProgress = false
+  private readonly failureThreshold = 5        // Failures before opening
+  private readonly coolDownMs = 30 * 1000      // Default open duration
+
+  constructor(readonly name: string) {}
+
+  /**
+   * Whether a request may be sent right now
+   */
+  canRequest(): boolean {
+    if (this.openedUntil === 0) return true
+    if (Date.now() < this.openedUntil) return false
+
+    // Half-open: allow a single trial request through
+    if (this.trialInProgress) return false
+    this.trialInProgress = true
+    return true
+  }
+
+  /**
+   * Let another trial through when the current one was cancelled
+   */
+  releaseTrial(): void {
+    this.trialInProgress = false
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0
+    this.openedUntil = 0
+    this.trialInProgress = false
+  }
+
+  /**
+   * Record a failed request (after retries)
+   * @param retryAfterMs - Server-requested delay, used as cool-down when longer
+   */
+  recordFailure(retryAfterMs: number | null = null): void {
+    this.consecutiveFailures++
+
+    if (this.trialInProgress || this.consecutiveFailures >= this.failureThreshold || retryAfterMs !== null) {
+      this.openedUntil = Date.now() + Math.max(this.coolDownMs, retryAfterMs ?? 0)
+    }
+    this.trialInProgress = false
+  }
+
+  /**
+   * Milliseconds until the breaker allows a trial request
+   */
+  remainingOpenMs(): number {
+    return Math.max(0, this.openedUntil - Date.now())
+  }
+
+  isOpen(): boolean {
+    return this.openedUntil !== 0 && Date.now() < this.openedUntil
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>()
+
+/**
+ * Get (or create) the circuit breaker for a URL's host
+ */
+function getCircuitBreaker(url: string): CircuitBreaker {
+  let host: string
+  try {
+    // Relative URLs (the /api proxy) resolve against the current page
+    host = new URL(url, typeof location !== "undefined" ? location.href : undefined).host
+  } catch {
+    host = url
+  }
+
+  let breaker = breakers.get(host)
+  if (!breaker) {
+    breaker = new CircuitBreaker(host)
+    breakers.set(host, breaker)
+  }
+  return breaker
+}
+
+// ============ Latency Tracking ============
+
+/**
+ * Response times of one upstream endpoint since the page was loaded
+ * Every attempt counts, retries included
+ */
+export interface EndpointLatency {
+  endpoint: string     // Endpoint path without query, addresses replaced by {address}
+  requests: number     // Completed attempts
+  errors: number       // Attempts that failed (HTTP error, network error, invalid JSON)
+  lastMs: number       // Duration of the latest attempt
+  averageMs: number    // Mean duration
+  maxMs: number        // Slowest attempt
+  lastAt: number       // When the latest attempt completed (milliseconds)
+}
+
+// Running totals per endpoint; the average is computed when read
+const latencies = new Map<string, Omit<EndpointLatency, "averageMs"> & { totalMs: number }>()
+
+// Tezos addresses in endpoint paths, so all bakers share one row
+const ADDRESS_SEGMENT = /(tz[1-4]|KT1)[1-9A-HJ-NP-Za-km-z]{33}/g
+
+/**
+ * Response times of every endpoint called so far, slowest average first
+ */
+export function getLatencyStats(): EndpointLatency[] {
+  return Array.from(latencies.values(), ({ totalMs, ...latency }) => ({
+    ...latency,
+    averageMs: totalMs / latency.requests,
+  })).sort((a, b) => b.averageMs - a.averageMs)
+}
+
+function recordLatency(endpoint: string, durationMs: number, ok: boolean): void {
+  const label = endpoint.split("?")[0].replace(ADDRESS_SEGMENT, "{address}")
+  const latency = latencies.get(label) ?? {
+    endpoint: label,
+    requests: 0,
+    errors: 0,
+    lastMs: 0,
+    maxMs: 0,
+    lastAt: 0,
+    totalMs: 0,
+  }
+
+  latency.requests++
+  latency.errors += ok ? 0 : 1
+  latency.lastMs = durationMs
+  latency.maxMs = Math.max(latency.maxMs, durationMs)
+  latency.totalMs += durationMs
+  latency.lastAt = Date.now()
+  latencies.set(label, latency)
+}
@@ -0,0 +1,261 @@
+/**
+ * Server-side Proxy for TzKT and tez.cool
+ *
+ * Used by the route handlers under `app/api/` so visitors share one server
+ * cache instead of each calling the public APIs from their browser:
+ * - Responses are cached with the client TTLs (CacheStrategies)
+ * - Concurrent requests for the same resource share one upstream call
+ * - Stale entries are served while the upstream is failing
+ * - Only fixed upstream hosts and whitelisted query parameters are used,
+ *   so a request can never make the server fetch an arbitrary URL
+ * - Numeric parameters (limit, offset, cycles) must be integers within
+ *   bounds, so callers cannot create endless distinct cache keys
+ */
+
+import { CacheManager, CacheStrategies, type CacheOptions } from "./cache-manager"
+import { isProxiedNetwork, isTezosNetworkId, resolveNetwork } from "./tezos-network"
+import { fetchJsonWithRetry, isAbortError, isUpstreamFailure, TzktApiError } from "./tzkt-fetch"
+import { CycleListSchema, validateResponse, type ResponseSchema } from "./tzkt-schemas"
+import type { Cycle } from "./tzkt-api"
+
+/**
+ * Configuration of one proxied endpoint
+ */
+export interface ProxyRoute {
+  strategy: CacheOptions    // Caching strategy (one of CacheStrategies)
+  schema: ResponseSchema    // Schema the upstream response must match
+  params?: string[]         // Query parameters forwarded upstream (others are dropped)
+  bounds?: Record<string, ParamBounds>  // Allowed range of numeric parameters (others are rejected)
+}
+
+/**
+ * Inclusive range of an integer query parameter
+ */
+export interface ParamBounds {
+  min: number
+  max: number
+}
+
+/**
+ * Bounds of the paging parameters, for list endpoints
+ * TzKT returns at most 10,000 items per request
+ */
+export const PAGING_BOUNDS: Record<string, ParamBounds> = {
+  limit: { min: 1, max: 10000 },
+  offset: { min: 0, max: 100000 },
+}
+
+const TEZ_COOL_URL = `${process.env.NEXT_PUBLIC_TEZ_COOL_URL || "https://tez.cool"}/api/v1/getData`
+
+/**
+ * Cache shared by every request handled by this server instance
+ */
+const serverCache = new CacheManager({ maxSize: 1000 })
+
+/**
+ * Proxy a TzKT endpoint for the network given in the `network` query parameter
+ * @param request - Incoming request
+ * @param path - Upstream TzKT path (e.g. "/v1/statistics/current")
+ * @param route - Endpoint configuration
+ * @returns JSON response with an X-Cache header (HIT, MISS or STALE)
+ */
+export async function proxyTzkt(request: Request, path: string, route: ProxyRoute): Promise<Response> {
+  const searchParams = new URL(request.url).searchParams
+  const networkId = searchParams.get("network") ?? "mainnet"
+
+  if (!isTezosNetworkId(networkId) || !isProxiedNetwork(networkId)) {
+    return errorResponse(400, `Unsupported network: ${networkId}`)
+  }
+
+  const outOfBounds = Object.entries(route.bounds ?? {}).find(([name, bounds]) => {
+    const value = searchParams.get(name)
+    return value !== null && !isWithinBounds(value, bounds)
+  })
+  if (outOfBounds) {
+    const [name, { min, max }] = outOfBounds
+    return errorResponse(400, `Invalid ${name}: expected an integer from ${min} to ${max}`)
+  }
+
+  const network = resolveNetwork(networkId)
+  const query = forwardedQuery(searchParams, route.params)
+  const endpoint = query ? `${path}?${query}` : path
+
+  return proxyJson(request, `${network.cacheNamespace}:${endpoint}`, `${network.tzktApiBase}${endpoint}`, endpoint, route)
+}
+
+/**
+ * Proxy the tez.cool home data (staking and delegation APY)
+ * @param request - Incoming request
+ * @param route - Endpoint configuration
+ */
+export async function proxyTezCool(request: Request, route: ProxyRoute): Promise<Response> {
+  return proxyJson(request, `tezcool:${TEZ_COOL_URL}`, TEZ_COOL_URL, TEZ_COOL_URL, route)
+}
+
+/**
+ * Index of the current cycle of the request's network, from the server cache
+ * The cached index may lag behind by one cycle for a few minutes; it never
+ * runs ahead, so cycles below it are always completed.
+ * @param request - Incoming request (its `network` query parameter is used)
+ * @returns The cycle index, or null if the network is unsupported or TzKT cannot be reached
+ */
+export async function getCurrentCycleIndex(request: Request): Promise<number | null> {
+  const networkId = new URL(request.url).searchParams.get("network") ?? "mainnet"
+  if (!isTezosNetworkId(networkId) || !isProxiedNetwork(networkId)) return null
+
+  const network = resolveNetwork(networkId)
+  const endpoint = "/v1/cycles?sort.desc=index&limit=1"
+  const cacheKey = `${network.cacheNamespace}:${endpoint}`
+  const strategy: CacheOptions = { ...CacheStrategies.NETWORK_STATS, persistToLocalStorage: false }
+
+  const cached = serverCache.peek<Cycle[]>(cacheKey, strategy)
+  if (cached && !serverCache.isStale(cached)) {
+    return cached.data[0]?.index ?? null
+  }
+
+  try {
+    const cycles = await serverCache.dedupe(cacheKey, async (signal) => {
+      const data = await fetchJsonWithRetry<unknown>(`${network.tzktApiBase}${endpoint}`, endpoint, {}, signal)
+      const valid = validateResponse<Cycle[]>(CycleListSchema, data, endpoint)
+      serverCache.set(cacheKey, valid, strategy)
+      return valid
+    })
+    return cycles[0]?.index ?? null
+  } catch (error) {
+    // An outdated index is still safe to use (see above)
+    console.warn("Could not load the current cycle:", error)
+    return cached?.data[0]?.index ?? null
+  }
+}
+
+/**
+ * Build a JSON error response
+ */
+export function errorResponse(status: number, message: string, headers: HeadersInit = {}): Response {
+  return Response.json({ error: message }, { status, headers })
+}
+
+// ============ Private Helpers ============
+
+/**
+ * Serve a cached upstream response, or fetch, validate and cache it
+ */
+async function proxyJson(
+  request: Request,
+  cacheKey: string,
+  upstreamUrl: string,
+  endpoint: string,
+  route: ProxyRoute,
+): Promise<Response> {
+  // No browser storage on the server
+  const strategy: CacheOptions = { ...route.strategy, persistToLocalStorage: false, persistToIndexedDB: false }
+
+  const load = (signal?: AbortSignal) =>
+    serverCache.dedupe(
+      cacheKey,
+      async (sharedSignal) => {
+        const data = await fetchJsonWithRetry<unknown>(upstreamUrl, endpoint, {}, sharedSignal)
+        const valid = validateResponse<unknown>(route.schema, data, endpoint)
+        serverCache.set(cacheKey, valid, strategy)
+        return valid
+      },
+      signal,
+    )
+
+  const cached = serverCache.get<unknown>(cacheKey, strategy)
+
+  if (cached) {
+    serverCache.recordHit(cacheKey)
+
+    const entry = serverCache.peek<unknown>(cacheKey, strategy)
+    if (strategy.staleWhileRevalidate && entry && serverCache.isStale(entry)) {
+      serverCache.recordStaleServe(cacheKey)
+      serverCache.recordRevalidation(cacheKey)
+      load().catch((error) => {
+        console.warn(`Background revalidation failed for ${endpoint}:`, error)
+      })
+    }
+
+    return jsonResponse(cached, "HIT", strategy)
+  }
+
+  serverCache.recordMiss(cacheKey)
+
+  try {
+    // The upstream call is cancelled if every client waiting for it disconnects
+    return jsonResponse(await load(request.signal), "MISS", strategy)
+  } catch (error) {
+    const stale = serverCache.peek<unknown>(cacheKey, strategy)
+    if (stale && isUpstreamFailure(error)) {
+      console.warn(`Serving stale data for ${endpoint}:`, error)
+      serverCache.recordStaleServe(cacheKey)
+      return jsonResponse(stale.data, "STALE", strategy)
+    }
+    return upstreamErrorResponse(error)
+  }
+}
+
+/**
+ * Copy whitelisted query parameters, in a fixed order so cache keys are canonical
+ */
+function forwardedQuery(searchParams: URLSearchParams, allowed: string[] = []): string {
+  const query = new URLSearchParams()
+
+  for (const name of allowed) {
+    const value = searchParams.get(name)
+    if (value !== null) {
+      query.set(name, value)
+    }
+  }
+
+  return query.toString()
+}
+
+function isWithinBounds(value: string, { min, max }: ParamBounds): boolean {
+  // Canonical form only (no sign or leading zeros), so each value has one cache key
+  if (!/^(0|[1-9]\d*)$/.test(value)) return false
+  const number = Number(value)
+  return number >= min && number <= max
+}
+
+function jsonResponse(data: unknown, cacheStatus: "HIT" | "MISS" | "STALE", strategy: CacheOptions): Response {
+  const maxAge = Math.round((strategy.ttl ?? 0) / 1000)
+
+  return Response.json(data, {
+    headers: {
+      // Let a CDN in front of the portal share responses as well
+      "Cache-Control": `public, max-age=0, s-maxage=${maxAge}, stale-while-revalidate=${maxAge}`,
+      "X-Cache": cacheStatus,
+    },
+  })
+}
+
+/**
+ * Translate an upstream failure into a response for the browser
+ * Retryable failures map to 502/503 so the client keeps retrying
+ */
+function upstreamErrorResponse(error: unknown): Response {
+  if (isAbortError(error)) {
+    // The client went away; nobody reads this response
+    return errorResponse(499, "Client closed request")
+  }
+
+  if (!(error instanceof TzktApiError)) {
+    console.error("TzKT proxy error:", error)
+    return errorResponse(500, "Internal proxy error")
+  }
+
+  const headers: Record<string, string> = {}
+  if (error.retryAfterMs !== null) {
+    headers["Retry-After"] = String(Math.ceil(error.retryAfterMs / 1000))
+  }
+
+  if (error.circuitOpen || error.status === 429) {
+    return errorResponse(503, error.userMessage, headers)
+  }
+  if (error.status !== null && error.status >= 400 && error.status < 500) {
+    // Bad request or unknown resource: pass the upstream status through
+    return errorResponse(error.status, error.userMessage)
+  }
+  return errorResponse(502, error.userMessage, headers)
+}
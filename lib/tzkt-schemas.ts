@@ -0,0 +1,435 @@
+/**
+ * Runtime Schemas for TzKT and tez.cool Responses
+ *
+ * The TypeScript interfaces in `tzkt-api.ts` only describe what we expect;
+ * `response.json()` is not checked at compile time. These schemas mirror
+ * the interfaces and are checked against every payload before it is cached:
+ * - Field-level mismatches are reported in the console during development
+ * - Payloads missing required fields (or with wrong types) are rejected
+ *   with a `TzktSchemaError` so they never reach the cache or the UI
+ *
+ * Each shape is checked against its interface with `satisfies ShapeOf<...>`:
+ * a field missing from either side, a different type, or a field required
+ * on one side but optional on the other fails the type-check.
+ */
+
+import type { Baker, BakerRewards, Block, Cycle, Head, NetworkStats, Protocol, Quote } from "./tzkt-api"
+import { TzktApiError } from "./tzkt-fetch"
+
+type TypeName = "string" | "number" | "boolean" | "object" | "array"
+
+/**
+ * Rule for a single field
+ * - "number": required number
+ * - "number?": optional number (checked only when present and not null)
+ * - { shape, optional }: nested object validated against its own shape
+ */
+type FieldRule = TypeName | `${TypeName}?` | { shape: Shape; optional?: boolean }
+
+/**
+ * Object shape: field name to validation rule
+ */
+export type Shape = { [field: string]: FieldRule }
+
+/**
+ * The shape an interface must have: one rule per field, optional exactly when
+ * the field is optional (or nullable), nested objects with their own shape
+ */
+export type ShapeOf<T> = {
+  [K in keyof T]-?: [Extract<T[K], null | undefined>] extends [never]
+    ? RequiredRule<T[K]>
+    : OptionalRule<NonNullable<T[K]>>
+}
+
+type TypeNameOf<V> = V extends string
+  ? "string"
+  : V extends number
+    ? "number"
+    : V extends boolean
+      ? "boolean"
+      : V extends readonly unknown[]
+        ? "array"
+        : "object"
+
+type RequiredRule<V> = TypeNameOf<V> extends "object" ? { shape: ShapeOf<V>; optional?: false } : TypeNameOf<V>
+
+type OptionalRule<V> = TypeNameOf<V> extends "object" ? { shape: ShapeOf<V>; optional: true } : `${TypeNameOf<V>}?`
+
+/**
+ * Schema describing a complete endpoint response
+ */
+export interface ResponseSchema {
+  name: string              // Interface name, used in reports
+  shape: Shape              // Shape of one object
+  list?: boolean            // Whether the response is an array of objects
+}
+
+/**
+ * One field that does not match its schema
+ */
+export interface SchemaIssue {
+  path: string              // Field path, e.g. "[3].quote.usd"
+  expected: string          // Expected type
+  received: string          // Actual type (or "missing")
+}
+
+/**
+ * Error raised when a response does not match its schema
+ * The payload is dropped instead of being cached
+ */
+export class TzktSchemaError extends TzktApiError {
+  readonly issues: SchemaIssue[]
+
+  constructor(schema: ResponseSchema, endpoint: string, issues: SchemaIssue[]) {
+    super(`Invalid ${schema.name} response from ${endpoint}: ${issues.length} field mismatch(es)`, {
+      status: 200,
+      endpoint,
+      retryable: false,
+    })
+    this.name = "TzktSchemaError"
+    this.issues = issues
+  }
+
+  get userMessage(): string {
+    return "The data service returned data in an unexpected format."
+  }
+}
+
+// ============ Schemas ============
+
+const quoteShape = {
+  btc: "number?",
+  eur: "number?",
+  usd: "number?",
+  cny: "number?",
+  jpy: "number?",
+  krw: "number?",
+  eth: "number?",
+  gbp: "number?",
+} satisfies ShapeOf<Quote>
+
+/**
+ * Schema for NetworkStats (/v1/statistics/current)
+ */
+export const NetworkStatsSchema: ResponseSchema = {
+  name: "NetworkStats",
+  shape: {
+    cycle: "number",
+    level: "number",
+    timestamp: "string",
+    totalBootstrapped: "number",
+    totalCommitments: "number",
+    totalActivated: "number",
+    totalCreated: "number",
+    totalBurned: "number",
+    totalBanished: "number",
+    totalFrozen: "number",
+    totalRollupBonds: "number",
+    totalSmartRollupBonds: "number",
+    quote: { shape: quoteShape, optional: true },
+  } satisfies ShapeOf<NetworkStats>,
+}
+
+/**
+ * Schema for Head (/v1/head and the "head" event subscription)
+ */
+export const HeadSchema: ResponseSchema = {
+  name: "Head",
+  shape: {
+    chain: "string",
+    cycle: "number",
+    level: "number",
+    hash: "string",
+    protocol: "string",
+    timestamp: "string",
+    knownLevel: "number",
+    synced: "boolean",
+    quoteUsd: "number?",
+    quoteEur: "number?",
+    quoteBtc: "number?",
+  } satisfies ShapeOf<Head>,
+}
+
+const bakerRefShape = {
+  address: "string",
+  alias: "string?",
+} satisfies ShapeOf<NonNullable<Block["proposer"]>>
+
+/**
+ * Schema for Block lists (the "blocks" event subscription)
+ */
+export const BlockListSchema: ResponseSchema = {
+  name: "Block",
+  list: true,
+  shape: {
+    cycle: "number",
+    level: "number",
+    hash: "string",
+    timestamp: "string",
+    proposer: { shape: bakerRefShape, optional: true },
+    producer: { shape: bakerRefShape, optional: true },
+  } satisfies ShapeOf<Block>,
+}
+
+const cycleShape = {
+  index: "number",
+  firstLevel: "number",
+  startTime: "string",
+  lastLevel: "number",
+  endTime: "string",
+  snapshotLevel: "number",
+  randomSeed: "string",
+  totalBakers: "number",
+  totalBakingPower: "number",
+  blockReward: "number?",
+  blockBonusPerSlot: "number?",
+  attestationRewardPerSlot: "number?",
+  nonceRevelationReward: "number?",
+  vdfRevelationReward: "number?",
+  quote: { shape: quoteShape, optional: true },
+} satisfies ShapeOf<Cycle>
+
+/**
+ * Schema for a single Cycle (the "cycle" event subscription)
+ */
+export const CycleSchema: ResponseSchema = {
+  name: "Cycle",
+  shape: cycleShape,
+}
+
+/**
+ * Schema for Cycle lists (/v1/cycles)
+ */
+export const CycleListSchema: ResponseSchema = {
+  name: "Cycle",
+  shape: cycleShape,
+  list: true,
+}
+
+const bakerShape = {
+  address: "string",
+  alias: "string?",
+  type: "string",
+  active: "boolean",
+  balance: "number",
+  stakedBalance: "number",
+  unstakedBalance: "number",
+  externalStakedBalance: "number",
+  externalUnstakedBalance: "number",
+  stakersCount: "number",
+  delegatedBalance: "number",
+  stakingBalance: "number",
+  numDelegators: "number",
+  limitOfStakingOverBaking: "number",
+  edgeOfBakingOverStaking: "number",
+  numBlocks: "number",
+  numAttestations: "number",
+  numBallots: "number",
+  numProposals: "number",
+  numActivations: "number",
+  numDoubleBaking: "number",
+  numDoubleAttestation: "number?",
+  numNonceRevelations: "number",
+  numRevelationPenalties: "number",
+  numAttestationRewards: "number?",
+  software: { shape: { version: "string?", date: "string?" }, optional: true },
+} satisfies ShapeOf<Baker>
+
+/**
+ * Schema for a single Baker (/v1/delegates/{address})
+ */
+export const BakerSchema: ResponseSchema = {
+  name: "Baker",
+  shape: bakerShape,
+}
+
+/**
+ * Schema for Baker lists (/v1/delegates)
+ */
+export const BakerListSchema: ResponseSchema = {
+  name: "Baker",
+  shape: bakerShape,
+  list: true,
+}
+
+/**
+ * Schema for BakerRewards lists (/v1/rewards/delegates/{address})
+ */
+export const BakerRewardsListSchema: ResponseSchema = {
+  name: "BakerRewards",
+  list: true,
+  shape: {
+    cycle: "number",
+    bakingPower: "number",
+    totalBakingPower: "number",
+    ownDelegatedBalance: "number",
+    externalDelegatedBalance: "number",
+    delegatorsCount: "number",
+    ownStakedBalance: "number",
+    externalStakedBalance: "number",
+    stakersCount: "number",
+    expectedBlocks: "number",
+    expectedAttestations: "number",
+    futureBlocks: "number",
+    futureBlockRewards: "number",
+    blocks: "number",
+    blockRewardsDelegated: "number",
+    blockRewardsStakedOwn: "number",
+    blockRewardsStakedEdge: "number",
+    blockRewardsStakedShared: "number",
+    missedBlocks: "number",
+    missedBlockRewards: "number",
+    futureAttestations: "number",
+    futureAttestationRewards: "number",
+    attestations: "number",
+    attestationRewardsDelegated: "number",
+    attestationRewardsStakedOwn: "number",
+    attestationRewardsStakedEdge: "number",
+    attestationRewardsStakedShared: "number",
+    missedAttestations: "number",
+    missedAttestationRewards: "number",
+    blockFees: "number",
+    missedBlockFees: "number",
+    nonceRevelationRewardsDelegated: "number?",
+    nonceRevelationRewardsStakedOwn: "number?",
+    nonceRevelationRewardsStakedEdge: "number?",
+    nonceRevelationRewardsStakedShared: "number?",
+    vdfRevelationRewardsDelegated: "number?",
+    vdfRevelationRewardsStakedOwn: "number?",
+    vdfRevelationRewardsStakedEdge: "number?",
+    vdfRevelationRewardsStakedShared: "number?",
+    doubleBakingRewards: "number?",
+    doubleBakingLostStaked: "number?",
+    doubleBakingLostExternalStaked: "number?",
+    quote: { shape: quoteShape, optional: true },
+  } satisfies ShapeOf<BakerRewards>,
+}
+
+/**
+ * Schema for Protocol (/v1/protocols/current)
+ * Only the constants used by the staking calculations are checked
+ */
+export const ProtocolSchema: ResponseSchema = {
+  name: "Protocol",
+  shape: {
+    code: "number",
+    hash: "string",
+    firstLevel: "number",
+    firstCycle: "number",
+    constants: {
+      shape: {
+        consensusCommitteeSize: "number?",
+        consensusThreshold: "number?",
+        blocksPerCommitment: "number?",
+        edgeOfStakingOverDelegation: "number?",
+        limitOfDelegationOverBaking: "number?",
+        globalLimitOfStakingOverBaking: "number?",
+      },
+    },
+  } satisfies ShapeOf<Protocol>,
+}
+
+/**
+ * Schema for the tez.cool home data (only the APY fields are used)
+ */
+export const TezCoolDataSchema: ResponseSchema = {
+  name: "TezCoolData",
+  shape: {
+    homeData: {
+      shape: {
+        stakingData: {
+          shape: { stakingApy: "number?", delegationApy: "number?" },
+        },
+      },
+    },
+  },
+}
+
+// ============ Validation ============
+
+/**
+ * Validate a response against its schema
+ * @param schema - Expected response schema
+ * @param data - Parsed JSON payload
+ * @param endpoint - Endpoint the payload came from (for reports)
+ * @returns The payload, typed, when it matches
+ * @throws TzktSchemaError when required fields are missing or mistyped
+ */
+export function validateResponse<T>(schema: ResponseSchema, data: unknown, endpoint: string): T {
+  const issues: SchemaIssue[] = []
+
+  if (schema.list) {
+    if (!Array.isArray(data)) {
+      issues.push({ path: "", expected: "array", received: typeOf(data) })
+    } else {
+      data.forEach((item, index) => checkShape(schema.shape, item, `[${index}]`, issues))
+    }
+  } else {
+    checkShape(schema.shape, data, "", issues)
+  }
+
+  if (issues.length > 0) {
+    reportIssues(schema, endpoint, issues)
+    throw new TzktSchemaError(schema, endpoint, issues)
+  }
+
+  return data as T
+}
+
+function checkShape(shape: Shape, value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (typeOf(value) !== "object") {
+    issues.push({ path: path || "(root)", expected: "object", received: typeOf(value) })
+    return
+  }
+
+  const record = value as Record<string, unknown>
+
+  for (const [field, rule] of Object.entries(shape)) {
+    const fieldPath = path ? `${path}.${field}` : field
+    const fieldValue = record[field]
+    const optional = typeof rule === "string" ? rule.endsWith("?") : rule.optional === true
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!optional) {
+        issues.push({ path: fieldPath, expected: describeRule(rule), received: "missing" })
+      }
+      continue
+    }
+
+    if (typeof rule === "string") {
+      const expected = rule.replace("?", "")
+      if (typeOf(fieldValue) !== expected) {
+        issues.push({ path: fieldPath, expected, received: typeOf(fieldValue) })
+      }
+    } else {
+      checkShape(rule.shape, fieldValue, fieldPath, issues)
+    }
+  }
+}
+
+function describeRule(rule: FieldRule): string {
+  return typeof rule === "string" ? rule.replace("?", "") : "object"
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+/**
+ * Log field-level mismatches during development
+ */
+function reportIssues(schema: ResponseSchema, endpoint: string, issues: SchemaIssue[]): void {
+  if (process.env.NODE_ENV === "production") return
+
+  const maxListed = 20
+  const lines = issues
+    .slice(0, maxListed)
+    .map((issue) => `  - ${issue.path}: expected ${issue.expected}, received ${issue.received}`)
+  if (issues.length > maxListed) {
+    lines.push(`  ... and ${issues.length - maxListed} more`)
+  }
+
+  console.warn(`[TzKT schema] ${schema.name} response from ${endpoint} was dropped:\n${lines.join("\n")}`)
+}
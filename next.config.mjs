@@ -1,5 +1,27 @@
+import { execSync } from "node:child_process"
+
+/**
+ * Identifies the deployed build
+ * Persisted cache entries from other builds may be purged (see lib/cache-versions.ts)
+ */
+function resolveBuildId() {
+  if (process.env.NEXT_PUBLIC_BUILD_ID) return process.env.NEXT_PUBLIC_BUILD_ID
+  if (process.env.VERCEL_GIT_COMMIT_SHA) return process.env.VERCEL_GIT_COMMIT_SHA
+  try {
+    return execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim()
+  } catch {
+    return `build-${Date.now()}`
+  }
+}
+
+const buildId = resolveBuildId()
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
+  generateBuildId: async () => buildId,
   typescript: {
     ignoreBuildErrors: true,
   },
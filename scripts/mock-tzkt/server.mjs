@@ -0,0 +1,580 @@
+#!/usr/bin/env node
+/**
+ * Mock TzKT Server
+ *
+ * Serves recorded TzKT and tez.cool responses so the portal can be developed
+ * and demoed offline, and so failure handling can be exercised on demand:
+ * - Every endpoint the client uses, including the `/v1/ws` event hub
+ * - Record mode: forwards requests upstream and saves the responses as fixtures
+ * - Scenarios: slow responses, server errors, rate limits, flaky and malformed data
+ *
+ * Usage:
+ *   npm run mock:tzkt                          # serve fixtures on http://localhost:5000
+ *   npm run mock:tzkt -- --scenario rate-limit # start in a failure scenario
+ *   npm run mock:tzkt:record                   # refresh fixtures from api.tzkt.io
+ *
+ * Switch scenarios while running:
+ *   curl -X POST http://localhost:5000/__mock/scenario/slow
+ *
+ * No dependencies: only Node.js built-in modules are used.
+ */
+
+import { createServer } from "node:http"
+import { createHash } from "node:crypto"
+import { readFile, writeFile, mkdir } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures")
+
+// Tezos account address inside a path: replaced by {address} for shared fixtures
+const ADDRESS_SEGMENT = /^(tz[1-4]|KT1)[1-9A-HJ-NP-Za-km-z]{33}$/
+
+// tez.cool paths are served next to the TzKT ones (set NEXT_PUBLIC_TEZ_COOL_URL to this server)
+const TEZ_COOL_PATH = "/api/v1/getData"
+
+/**
+ * Failure scenarios
+ */
+const SCENARIOS = {
+  normal: "Serve fixtures as recorded",
+  slow: "Delay every response (see --delay)",
+  error: "Answer every request with 500 Internal Server Error",
+  "rate-limit": "Answer every request with 429 Too Many Requests and Retry-After",
+  flaky: "Fail half of the requests with 503 Service Unavailable",
+  malformed: "Serve payloads with missing and mistyped fields",
+  offline: "Refuse event hub connections so the client falls back to polling",
+}
+
+// ============ Options ============
+
+const options = parseArgs(process.argv.slice(2))
+
+let scenario = options.scenario
+
+if (!(scenario in SCENARIOS)) {
+  console.error(`Unknown scenario "${scenario}". Available: ${Object.keys(SCENARIOS).join(", ")}`)
+  process.exit(1)
+}
+
+// ============ Simulated Chain ============
+
+/**
+ * Chain tip advanced every block time, so head, statistics and the event hub
+ * behave like a live network while serving static fixtures
+ */
+const chain = {
+  head: null,               // Current head (from v1_head.json)
+  cycle: null,              // Current cycle (first entry of v1_cycles.json)
+}
+
+async function initChain() {
+  chain.head = await loadFixture("v1_head")
+  const cycles = await loadFixture("v1_cycles")
+  chain.cycle = Array.isArray(cycles) ? cycles[0] : null
+
+  if (!chain.head || !chain.cycle) {
+    console.warn("No head or cycle fixture: the event hub will not produce blocks")
+    return
+  }
+
+  setInterval(advanceChain, options.blockTime * 1000).unref()
+}
+
+function advanceChain() {
+  const head = chain.head
+  const level = head.level + 1
+  const timestamp = new Date().toISOString().replace(/\.\d+Z$/, "Z")
+
+  let cycleStarted = false
+  if (level > chain.cycle.lastLevel) {
+    const length = chain.cycle.lastLevel - chain.cycle.firstLevel + 1
+    chain.cycle = {
+      ...chain.cycle,
+      index: chain.cycle.index + 1,
+      firstLevel: chain.cycle.lastLevel + 1,
+      lastLevel: chain.cycle.lastLevel + length,
+      startTime: timestamp,
+      endTime: new Date(Date.now() + length * options.blockTime * 1000).toISOString(),
+    }
+    cycleStarted = true
+  }
+
+  chain.head = {
+    ...head,
+    level,
+    knownLevel: level,
+    cycle: chain.cycle.index,
+    hash: blockHash(level),
+    timestamp,
+  }
+
+  broadcast("head", chain.head)
+  broadcast("blocks", [
+    { cycle: chain.head.cycle, level, hash: chain.head.hash, timestamp, proposer: { address: "tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb" } },
+  ])
+  if (cycleStarted) {
+    broadcast("cycle", chain.cycle)
+  }
+}
+
+/**
+ * Patch responses that depend on the chain tip
+ */
+function applyChain(path, body) {
+  if (!chain.head) return body
+
+  if (path === "/v1/head") {
+    return chain.head
+  }
+  if (path === "/v1/statistics/current") {
+    return { ...body, level: chain.head.level, cycle: chain.head.cycle, timestamp: chain.head.timestamp }
+  }
+  if (path === "/v1/cycles" && Array.isArray(body) && body[0]?.index < chain.cycle.index) {
+    return [chain.cycle, ...body]
+  }
+  return body
+}
+
+// ============ HTTP ============
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`)
+
+  setCorsHeaders(res)
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end()
+    return
+  }
+
+  if (url.pathname.startsWith("/__mock")) {
+    handleControl(req, res, url)
+    return
+  }
+
+  try {
+    if (options.record) {
+      await handleRecord(res, url)
+    } else {
+      await handleFixture(res, url)
+    }
+  } catch (error) {
+    console.error(`${req.method} ${url.pathname}${url.search} failed:`, error)
+    sendJson(res, 500, { error: "Mock server error" })
+  }
+})
+
+async function handleFixture(res, url) {
+  if (scenario === "slow") {
+    await sleep(options.delay)
+  }
+
+  switch (scenario) {
+    case "error":
+      log(url, 500)
+      sendJson(res, 500, { error: "Internal Server Error" })
+      return
+    case "rate-limit":
+      log(url, 429)
+      sendJson(res, 429, { error: "Too Many Requests" }, { "Retry-After": String(options.retryAfter) })
+      return
+    case "flaky":
+      if (Math.random() < 0.5) {
+        log(url, 503)
+        sendJson(res, 503, { error: "Service Unavailable" })
+        return
+      }
+      break
+  }
+
+  const name = await findFixture(url.pathname)
+  if (!name) {
+    log(url, 404)
+    sendJson(res, 404, { error: `No fixture for ${url.pathname}` })
+    return
+  }
+
+  let body = applyChain(url.pathname, await loadFixture(name))
+  if (Array.isArray(body)) {
+    body = queryList(body, url.searchParams)
+  }
+  if (scenario === "malformed") {
+    body = malform(body)
+  }
+
+  log(url, 200, name)
+  sendJson(res, 200, body)
+}
+
+/**
+ * Forward a request upstream and save the response as a fixture
+ * The last response for a path wins; query variations share one fixture
+ */
+async function handleRecord(res, url) {
+  const upstream = url.pathname === TEZ_COOL_PATH ? options.tezCoolUpstream : options.upstream
+  const response = await fetch(`${upstream}${url.pathname}${url.search}`)
+  const text = await response.text()
+
+  if (response.ok) {
+    const name = fixtureName(url.pathname, false)
+    await mkdir(FIXTURES_DIR, { recursive: true })
+    await writeFile(join(FIXTURES_DIR, `${name}.json`), JSON.stringify(JSON.parse(text), null, 2) + "\n")
+    log(url, response.status, `recorded ${name}`)
+  } else {
+    log(url, response.status, "not recorded")
+  }
+
+  res.writeHead(response.status, { "Content-Type": "application/json" }).end(text)
+}
+
+/**
+ * Control endpoints:
+ * - GET  /__mock                  Current scenario and the available ones
+ * - POST /__mock/scenario/<name>  Switch scenario
+ */
+function handleControl(req, res, url) {
+  const match = url.pathname.match(/^\/__mock\/scenario\/([\w-]+)$/)
+
+  if (match && req.method === "POST") {
+    if (!(match[1] in SCENARIOS)) {
+      sendJson(res, 400, { error: `Unknown scenario "${match[1]}"`, scenarios: SCENARIOS })
+      return
+    }
+    scenario = match[1]
+    console.log(`Scenario: ${scenario} (${SCENARIOS[scenario]})`)
+    if (scenario === "offline") {
+      closeHubClients()
+    }
+  } else if (url.pathname !== "/__mock") {
+    sendJson(res, 404, { error: "Unknown control endpoint" })
+    return
+  }
+
+  sendJson(res, 200, { scenario, scenarios: SCENARIOS, record: options.record, level: chain.head?.level ?? null })
+}
+
+// ============ Fixtures ============
+
+/**
+ * Fixture file name for a path
+ * "/v1/delegates/tz1..." becomes "v1_delegates_tz1..." or, as a template, "v1_delegates_{address}"
+ */
+function fixtureName(path, template) {
+  return path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => (template && ADDRESS_SEGMENT.test(segment) ? "{address}" : segment))
+    .join("_")
+}
+
+/**
+ * Find the fixture for a path: the exact one first, then the address template
+ */
+async function findFixture(path) {
+  for (const name of new Set([fixtureName(path, false), fixtureName(path, true)])) {
+    if ((await loadFixture(name)) !== null) return name
+  }
+  return null
+}
+
+async function loadFixture(name) {
+  try {
+    return JSON.parse(await readFile(join(FIXTURES_DIR, `${name}.json`), "utf8"))
+  } catch (error) {
+    if (error.code === "ENOENT") return null
+    throw error
+  }
+}
+
+// TzKT filter modes ("field.ge=10"); a bare field name means equality
+const COMPARISONS = {
+  eq: (field, value) => String(field) === value,
+  ne: (field, value) => String(field) !== value,
+  gt: (field, value) => Number(field) > Number(value),
+  ge: (field, value) => Number(field) >= Number(value),
+  lt: (field, value) => Number(field) < Number(value),
+  le: (field, value) => Number(field) <= Number(value),
+}
+
+/**
+ * Apply the TzKT list parameters the client uses: field filters, sorting and paging
+ */
+function queryList(items, params) {
+  let result = items
+
+  for (const [name, value] of params) {
+    if (name.startsWith("sort.") || ["offset", "limit", "quote"].includes(name)) continue
+
+    const [field, mode] = name.split(".")
+    const compare = COMPARISONS[mode ?? "eq"]
+    if (!compare) continue
+    result = result.filter((item) => !(field in item) || compare(item[field], value))
+  }
+
+  const sortField = params.get("sort.desc") ?? params.get("sort.asc")
+  if (sortField) {
+    const direction = params.has("sort.desc") ? -1 : 1
+    result = [...result].sort((a, b) => (a[sortField] > b[sortField] ? direction : a[sortField] < b[sortField] ? -direction : 0))
+  }
+
+  const offset = Number(params.get("offset") ?? 0)
+  const limit = Number(params.get("limit") ?? 100)
+  return result.slice(offset, offset + limit)
+}
+
+/**
+ * Break the payload the way a faulty upstream would: drop one field, mistype another
+ */
+function malform(body) {
+  const breakItem = (item) => {
+    if (typeof item !== "object" || item === null) return item
+    const [first, second] = Object.keys(item)
+    const { [first]: _dropped, ...rest } = item
+    return second ? { ...rest, [second]: "not-a-number" } : rest
+  }
+  return Array.isArray(body) ? body.map(breakItem) : breakItem(body)
+}
+
+// ============ Event Hub ============
+
+// SignalR separates JSON messages with the ASCII record separator
+const RECORD_SEPARATOR = "\u001e"
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
+/**
+ * Connected hub clients and the channels each one subscribed to
+ */
+const hubClients = new Map()
+
+const SUBSCRIPTIONS = {
+  SubscribeToHead: "head",
+  SubscribeToBlocks: "blocks",
+  SubscribeToCycle: "cycle",
+}
+
+server.on("upgrade", (req, socket) => {
+  const url = new URL(req.url, "http://localhost")
+  const key = req.headers["sec-websocket-key"]
+
+  if (url.pathname !== "/v1/ws" || !key || scenario === "offline") {
+    socket.end("HTTP/1.1 503 Service Unavailable\r\n\r\n")
+    return
+  }
+
+  const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64")
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  )
+
+  const client = { socket, channels: new Set(), handshakeDone: false, buffer: Buffer.alloc(0) }
+  hubClients.set(socket, client)
+  console.log(`Event hub: client connected (${hubClients.size} total)`)
+
+  socket.on("data", (chunk) => {
+    client.buffer = Buffer.concat([client.buffer, chunk])
+    let frame
+    while ((frame = readFrame(client))) {
+      handleFrame(client, frame)
+    }
+  })
+  socket.on("close", () => {
+    hubClients.delete(socket)
+    console.log(`Event hub: client disconnected (${hubClients.size} total)`)
+  })
+  socket.on("error", () => socket.destroy())
+})
+
+function handleFrame(client, { opcode, payload }) {
+  if (opcode === 0x8) {
+    client.socket.end(encodeFrame(0x8, Buffer.alloc(0)))
+    return
+  }
+  if (opcode === 0x9) {
+    client.socket.write(encodeFrame(0xa, payload))
+    return
+  }
+  if (opcode !== 0x1) return
+
+  for (const text of payload.toString("utf8").split(RECORD_SEPARATOR)) {
+    if (!text) continue
+    let message
+    try {
+      message = JSON.parse(text)
+    } catch {
+      // Malformed frame: answer with a handshake error or a close message, then disconnect
+      const error = "Invalid JSON in hub message"
+      sendHub(client, client.handshakeDone ? { type: 7, error } : { error })
+      client.socket.end(encodeFrame(0x8, Buffer.alloc(0)))
+      return
+    }
+
+    if (!client.handshakeDone) {
+      client.handshakeDone = true
+      sendHub(client, {})
+      continue
+    }
+
+    // Invocation: subscribe and acknowledge with a completion
+    if (message.type === 1) {
+      const channel = SUBSCRIPTIONS[message.target]
+      if (channel) {
+        client.channels.add(channel)
+        sendHub(client, { type: 3, invocationId: message.invocationId, result: chain.head?.level ?? 0 })
+      } else {
+        sendHub(client, { type: 3, invocationId: message.invocationId, error: `Unknown method ${message.target}` })
+      }
+    }
+  }
+}
+
+/**
+ * Push data to every client subscribed to a channel
+ */
+function broadcast(channel, data) {
+  const payload = { type: 1, state: chain.head.level, data }
+  for (const client of hubClients.values()) {
+    if (client.channels.has(channel)) {
+      sendHub(client, { type: 1, target: channel, arguments: [payload] })
+    }
+  }
+}
+
+function closeHubClients() {
+  for (const client of hubClients.values()) {
+    sendHub(client, { type: 7, error: "Mock hub went offline" })
+    client.socket.end(encodeFrame(0x8, Buffer.alloc(0)))
+  }
+}
+
+function sendHub(client, message) {
+  client.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message) + RECORD_SEPARATOR)))
+}
+
+/**
+ * Read one masked client frame from the buffer, or null when incomplete
+ */
+function readFrame(client) {
+  const buffer = client.buffer
+  if (buffer.length < 2) return null
+
+  const opcode = buffer[0] & 0x0f
+  const masked = (buffer[1] & 0x80) !== 0
+  let length = buffer[1] & 0x7f
+  let offset = 2
+
+  if (length === 126) {
+    if (buffer.length < 4) return null
+    length = buffer.readUInt16BE(2)
+    offset = 4
+  } else if (length === 127) {
+    if (buffer.length < 10) return null
+    length = Number(buffer.readBigUInt64BE(2))
+    offset = 10
+  }
+
+  const maskOffset = offset
+  if (masked) offset += 4
+  if (buffer.length < offset + length) return null
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length))
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)]
+    }
+  }
+
+  client.buffer = buffer.subarray(offset + length)
+  return { opcode, payload }
+}
+
+/**
+ * Encode an unmasked server frame
+ */
+function encodeFrame(opcode, payload) {
+  let header
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length])
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4)
+    header[0] = 0x80 | opcode
+    header[1] = 126
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x80 | opcode
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+// ============ Helpers ============
+
+function parseArgs(args) {
+  const result = {
+    port: Number(process.env.MOCK_TZKT_PORT ?? 5000),
+    scenario: process.env.MOCK_TZKT_SCENARIO ?? "normal",
+    record: false,
+    delay: 3000,             // Response delay of the "slow" scenario (ms)
+    retryAfter: 30,          // Retry-After of the "rate-limit" scenario (seconds)
+    blockTime: 8,            // Seconds between simulated blocks
+    upstream: "https://api.tzkt.io",
+    tezCoolUpstream: "https://tez.cool",
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const value = () => args[++i]
+
+    switch (arg) {
+      case "--port": result.port = Number(value()); break
+      case "--scenario": result.scenario = value(); break
+      case "--record": result.record = true; break
+      case "--delay": result.delay = Number(value()); break
+      case "--retry-after": result.retryAfter = Number(value()); break
+      case "--block-time": result.blockTime = Number(value()); break
+      case "--upstream": result.upstream = value().replace(/\/+$/, ""); break
+      default:
+        console.error(`Unknown option ${arg}`)
+        process.exit(1)
+    }
+  }
+
+  return result
+}
+
+function setCorsHeaders(res) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "*")
+  res.setHeader("Access-Control-Expose-Headers", "Retry-After")
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body))
+}
+
+function log(url, status, note = "") {
+  console.log(`${status} ${url.pathname}${url.search}${note ? ` (${note})` : ""}`)
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function blockHash(level) {
+  // Not a valid block hash, but stable and unique per level
+  return `BL${createHash("sha256").update(String(level)).digest("hex").slice(0, 49)}`
+}
+
+// ============ Start ============
+
+await initChain()
+
+server.listen(options.port, () => {
+  console.log(`Mock TzKT server on http://localhost:${options.port}`)
+  console.log(options.record ? `Recording from ${options.upstream} and ${options.tezCoolUpstream}` : `Scenario: ${scenario} (${SCENARIOS[scenario]})`)
+})